@@ -1,18 +1,51 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Intro } from '@/sections/Intro';
 import { Hero } from '@/sections/Hero';
 import { Chapter } from '@/sections/Chapter';
 import { FinalVerdict } from '@/sections/FinalVerdict';
+import { Summary } from '@/sections/Summary';
+import { Setup } from '@/sections/Setup';
+import { Compare } from '@/sections/Compare';
+import { Privacy } from '@/sections/Privacy';
 import { StatsRow } from '@/components/StatsRow';
 import { EmotionalWave } from '@/components/EmotionalWave';
 import { ToneSwitcher } from '@/components/ToneSwitcher';
 import { ProgressBar } from '@/components/ProgressBar';
 import { Header } from '@/components/Header';
+import { FilmPlayer } from '@/components/FilmPlayer';
+import { useRoute } from '@/hooks/use-route';
+import { DOC_SECTIONS, docPath, getRouterSnapshot, navigate, syncChapter } from '@/lib/routing/router';
 import { toneData, chapterTitles, archetypes, type ToneMode } from '@/lib/narrative/toneData';
+import { buildToneContent } from '@/lib/narrative/templates';
+import { generateDocumentaryScript, generateReelScript } from '@/lib/narrative/engine';
+import { buildFilmTimeline } from '@/lib/narrative/film-timeline';
+import { selectSoundtrack, hasSoundtrack } from '@/lib/soundtrack/cues';
+import { createSoundtrackPlayer } from '@/lib/soundtrack/player';
+import { createNoopPlayer, IDLE_PLAYBACK } from '@/lib/playback/player';
+import { createWebPlaybackPlayer } from '@/lib/playback/web-playback';
 import { createSpotifyService } from '@/lib/spotify/service';
-import { buildListeningProfile, mapProfileToUIData, type UIData } from '@/lib/spotify/transformer';
-import type { ListeningProfile } from '@/types/spotify-analysis';
+import {
+  resolveSpotifyConfig, saveConfigOverride, diagnoseSpotifyConfig, hasBlockingIssue, explainOAuthError,
+  type ConfigOverride,
+} from '@/lib/spotify/config';
+import {
+  buildListeningProfile, mapProfileToUIData,
+  type UIData, type ComprehensiveSpotifyData, type RangedTrackData,
+} from '@/lib/spotify/transformer';
+import { readStreamingHistoryFiles, mergePlayHistory } from '@/lib/spotify/streaming-history';
+import { readFeatureTableFile, createLookupTableProvider } from '@/lib/audio-features/lookup-table-provider';
+import type { AudioFeatureProvider } from '@/lib/audio-features/provider';
+import { saveSnapshot, loadLatestSnapshot } from '@/lib/storage/snapshots';
+import { loadPlayHistory, accumulatePlayHistory } from '@/lib/storage/play-history';
+import { loadClaims, saveClaims } from '@/lib/storage/claims';
+import { getActiveAccountId, listAccounts } from '@/lib/storage/accounts';
+import { deleteAllStoredData } from '@/lib/storage/privacy';
+import { buildPosterData } from '@/lib/share/poster';
+import {
+  createShareUrl, hasSharedDocumentary, readSharedDocumentary, type SharedDocumentary,
+} from '@/lib/share/share-link';
+import type { IdentityClaims, ReelContent, SpotifyPlayHistory, SpotifyUser } from '@/types/spotify-analysis';
 import './App.css';
 
 const spotifyService = createSpotifyService();
@@ -20,6 +53,8 @@ const spotifyService = createSpotifyService();
 const DEMO_DATA: UIData = {
   userName: 'Alex Reyes',
   totalMinutes: 23847,
+  isProjected: false,
+  daysOfData: 365,
   totalSongs: 847,
   topArtists: [
     { rank: '01', title: 'Mitski', subtitle: 'Indie / Art Rock', barWidth: '95%' },
@@ -59,7 +94,14 @@ const DEMO_DATA: UIData = {
   emotionalArc: [],
 };
 
-function LoadingScreen({ stage }: { stage: string }) {
+// Raw fetched (or cached) data; the profile and script are derived from it
+interface DocumentarySource {
+  data: ComprehensiveSpotifyData;
+  ranged: RangedTrackData;
+  user: SpotifyUser;
+}
+
+function LoadingScreen({ stage, detail }: { stage: string; detail?: string }) {
   return (
     <motion.div
       initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
@@ -75,6 +117,11 @@ function LoadingScreen({ stage }: { stage: string }) {
       <div style={{ fontSize: '15px', color: 'var(--off-white)', fontFamily: "'Playfair Display', serif", fontStyle: 'italic' }}>
         {stage}
       </div>
+      {detail && (
+        <div style={{ fontSize: '9px', letterSpacing: '0.3em', color: 'var(--steel)', textTransform: 'uppercase' }}>
+          {detail}
+        </div>
+      )}
       <div style={{ width: 200, height: 1, background: 'var(--dim)', overflow: 'hidden', position: 'relative' }}>
         <motion.div
           style={{ position: 'absolute', inset: 0, background: 'var(--red)' }}
@@ -86,7 +133,23 @@ function LoadingScreen({ stage }: { stage: string }) {
   );
 }
 
-function ErrorScreen({ message, onRetry }: { message: string; onRetry: () => void }) {
+function StatusNote({ text }: { text: string }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+      style={{
+        position: 'fixed', bottom: 20, left: 20, zIndex: 500, padding: '8px 14px',
+        background: 'var(--card)', border: '1px solid var(--dim)', color: 'var(--steel)',
+        fontSize: '9px', letterSpacing: '0.25em', textTransform: 'uppercase',
+      }}
+    >
+      {text}
+    </motion.div>
+  );
+}
+
+function ErrorScreen({ message, onRetry, onDiagnose }: { message: string; onRetry: () => void; onDiagnose: () => void }) {
+  const explained = explainOAuthError(message);
   return (
     <div style={{
       position: 'fixed', inset: 0, background: 'var(--black)',
@@ -94,7 +157,14 @@ function ErrorScreen({ message, onRetry }: { message: string; onRetry: () => voi
       justifyContent: 'center', gap: '1rem',
     }}>
       <div style={{ color: 'var(--red)', fontSize: '9px', letterSpacing: '0.4em', textTransform: 'uppercase' }}>Error</div>
-      <div style={{ fontSize: '15px', maxWidth: 420, textAlign: 'center', lineHeight: 1.7, color: 'var(--off-white)' }}>{message}</div>
+      <div style={{ fontSize: '15px', maxWidth: 420, textAlign: 'center', lineHeight: 1.7, color: 'var(--off-white)' }}>
+        {explained?.title ?? message}
+      </div>
+      {explained && (
+        <div style={{ fontSize: '12px', maxWidth: 420, textAlign: 'center', lineHeight: 1.7, color: 'var(--steel)' }}>
+          {explained.explanation} {explained.fix}
+        </div>
+      )}
       <button onClick={onRetry} style={{
         marginTop: '1.5rem', padding: '14px 40px', background: 'transparent',
         border: '1px solid var(--steel)', color: 'var(--off-white)',
@@ -103,90 +173,396 @@ function ErrorScreen({ message, onRetry }: { message: string; onRetry: () => voi
       }}>
         Try Again
       </button>
+      <button onClick={onDiagnose} className="intro-link">Setup & diagnostics</button>
     </div>
   );
 }
 
 function App() {
-  const [showIntro, setShowIntro] = useState(true);
+  const { route, key: navigationKey } = useRoute();
+  // Intro, settings and compare are their own screens; the documentary is /doc or /shared
+  const showIntro = route.name !== 'doc' && route.name !== 'shared';
   const [tone, setTone] = useState<ToneMode>('brutal');
   const [currentChapter, setCurrentChapter] = useState('PROLOGUE');
+  const [currentSection, setCurrentSection] = useState('hero');
+  const [soundtrackPlayer] = useState(createSoundtrackPlayer);
+  const [muted, setMuted] = useState(soundtrackPlayer.isMuted);
+  // Full tracks for Premium listeners; the no-op player hides the card controls
+  const [trackPlayer, setTrackPlayer] = useState(createNoopPlayer);
+  const [playback, setPlayback] = useState(IDLE_PLAYBACK);
+  // The card last played — artist cards play a context, so the SDK's track URI won't match it
+  const [playingCard, setPlayingCard] = useState<string | null>(null);
+  const [filmMode, setFilmMode] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingStage, setLoadingStage] = useState('Connecting to Spotify...');
+  const [requestStatus, setRequestStatus] = useState('');
+  const [cacheStatus, setCacheStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [uiData, setUiData] = useState<UIData>(DEMO_DATA);
-  const [_profile, setProfile] = useState<ListeningProfile | null>(null);
+  const [config, setConfig] = useState(resolveSpotifyConfig);
+  // The error that opened setup, explained there in full
+  const [setupProblem, setSetupProblem] = useState<string | null>(null);
+  const [source, setSource] = useState<DocumentarySource | null>(null);
+  // Signed-in accounts on this browser; tokens, answers and caches are per account
+  const [accountId, setAccountId] = useState(getActiveAccountId);
+  const [accounts, setAccounts] = useState(listAccounts);
+  const [claims, setClaims] = useState<IdentityClaims | null>(() => loadClaims(getActiveAccountId()));
+  // A documentary opened from a share link; replaces everything derived below
+  const [shared, setShared] = useState<SharedDocumentary | null>(null);
+  const [importedCount, setImportedCount] = useState(0);
+  const [featureTableSize, setFeatureTableSize] = useState(0);
+  // Kept in a ref so fetchAndProcess stays stable for the auth effect
+  const importsRef = useRef<{ history: SpotifyPlayHistory[]; featureProviders: AudioFeatureProvider[] }>({
+    history: [], featureProviders: [],
+  });
+  // Bumped whenever the current account changes, so a fetch started for the
+  // previous one stops before touching state or storage
+  const accountGeneration = useRef(0);
 
-  const content = useMemo(() => toneData[tone], [tone]);
-  const archetype = archetypes[tone];
+  // Everything below is derived, so answering the questionnaire re-scores it
+  const profile = useMemo(
+    () => source ? buildListeningProfile(source.data, source.ranged, claims ?? undefined) : null,
+    [source, claims]
+  );
+  const script = useMemo(
+    () => shared?.script ?? (profile && source ? generateDocumentaryScript(profile, source.user.display_name) : null),
+    [shared, profile, source]
+  );
+  const uiData = useMemo(
+    () => shared?.uiData ?? (profile && source ? mapProfileToUIData(profile, source.user) : DEMO_DATA),
+    [shared, profile, source]
+  );
+  // Shared documentaries are frozen in the tone they were shared in
+  const activeTone = shared?.tone ?? tone;
+  const poster = useMemo(
+    () => script ? buildPosterData(script, archetypes[activeTone], uiData.emotionalArc) : null,
+    [script, activeTone, uiData.emotionalArc]
+  );
+  // Alphabetical, so the picker doesn't give away what's actually on top
+  const claimArtistOptions = useMemo(
+    () => source
+      ? [...new Set([...source.data.topArtists, ...source.data.historyArtists].map(a => a.name))]
+          .sort((a, b) => a.localeCompare(b))
+      : [],
+    [source]
+  );
+
+  // Demo copy until a real profile exists, then templated from the user's data
+  const content = useMemo(
+    () => shared?.content ?? (profile
+      ? buildToneContent(profile, tone, { totalMinutes: uiData.totalMinutes, totalSongs: uiData.totalSongs })
+      : toneData[tone]),
+    [shared, profile, tone, uiData.totalMinutes, uiData.totalSongs]
+  );
+  const archetype = archetypes[activeTone];
+
+  const soundtrack = useMemo(
+    () => profile && source ? selectSoundtrack(profile, source.data) : null,
+    [profile, source]
+  );
+  const cue = showIntro ? null : soundtrack?.[currentSection] ?? null;
+  const filmTimeline = useMemo(() => buildFilmTimeline(script), [script]);
+  const reels = useMemo(
+    () => profile && !shared
+      ? Object.fromEntries(
+          (Object.keys(archetypes) as ToneMode[]).map(t => [t, generateReelScript(profile, t, archetypes[t])])
+        ) as Record<ToneMode, ReelContent>
+      : null,
+    [profile, shared]
+  );
+
+  // Reports need the full profile, so only your own documentary has one
+  const reportSource = useMemo(
+    () => profile && script && !shared ? { profile, script, tone, archetype } : undefined,
+    [profile, script, shared, tone, archetype]
+  );
 
-  const fetchAndProcess = useCallback(async () => {
+  // Only your own documentary can be shared; the demo and shared views copy their URL
+  const handleShareLink = useMemo(
+    () => script && !shared
+      ? (anonymize: boolean) => createShareUrl({ tone, uiData, script, content }, { anonymize })
+      : undefined,
+    [script, shared, tone, uiData, content]
+  );
+
+  // Resolves false, without throwing, when the account changed mid-fetch
+  const fetchAndProcess = useCallback(async (): Promise<boolean> => {
+    const generation = accountGeneration.current;
+    const stale = () => generation !== accountGeneration.current;
+    const { history, featureProviders } = importsRef.current;
     setLoadingStage('Fetching your listening history...');
-    const [comprehensive, user, shortTerm, mediumTerm, longTerm] = await Promise.all([
-      spotifyService.getComprehensiveData(),
-      spotifyService.getCurrentUser(),
-      spotifyService.getTopTracks('short_term', 50),
-      spotifyService.getTopTracks('medium_term', 50),
-      spotifyService.getTopTracks('long_term', 50),
-    ]);
-    setLoadingStage('Analyzing your emotional arc...');
-    const listeningProfile = buildListeningProfile(
-      comprehensive,
-      { short: shortTerm, medium: mediumTerm, long: longTerm }
-    );
-    setLoadingStage('Writing your documentary...');
-    const computed = mapProfileToUIData(listeningProfile, user);
-    setProfile(listeningProfile);
-    setUiData(computed);
-    setIsLoading(false);
+    try {
+      const user = await spotifyService.getCurrentUser();
+      if (stale()) return false;
+      // A fresh login only learns its account here
+      setAccountId(user.id);
+      setAccounts(listAccounts());
+      setClaims(loadClaims(user.id));
+      // Plays accumulated on earlier visits extend the 50-play recent window
+      const knownHistory = mergePlayHistory(await loadPlayHistory(user.id).catch(() => []), history);
+      if (stale()) return false;
+      // medium_term top tracks already come back inside getComprehensiveData
+      const [comprehensive, shortTerm, longTerm] = await Promise.all([
+        spotifyService.getComprehensiveData(knownHistory, featureProviders),
+        spotifyService.getTopTracks('short_term'),
+        spotifyService.getTopTracks('long_term'),
+      ]);
+      if (stale()) return false;
+      const ranged = { short: shortTerm, medium: comprehensive.topTracks, long: longTerm };
+      setSource({ data: comprehensive, ranged, user });
+      setIsLoading(false);
+      accumulatePlayHistory(user.id, comprehensive.recentlyPlayed)
+        .then(() => saveSnapshot(user, comprehensive, ranged))
+        .catch(() => { if (!stale()) setCacheStatus('Not saved for offline viewing'); });
+      return true;
+    } catch (err) {
+      if (stale()) return false;
+      throw err;
+    }
   }, []);
 
-  useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const code = params.get('code');
-    const authError = params.get('error');
+  // Render the last cached snapshot straight away, then revalidate from Spotify
+  const loadCachedThenFetch = useCallback(async () => {
+    const generation = accountGeneration.current;
+    const cached = await loadLatestSnapshot().catch(() => null);
+    if (generation !== accountGeneration.current) return;
+    if (!cached) { await fetchAndProcess(); return; }
 
-    if (authError) {
-      setError(`Spotify authorization was denied: ${authError}`);
-      return;
+    setSource({ data: cached.data, ranged: cached.rangedTracks, user: cached.user });
+    setIsLoading(false);
+    const cachedDate = new Date(cached.fetchedAt).toLocaleDateString();
+    setCacheStatus(`Refreshing · showing data from ${cachedDate}`);
+    try {
+      if (await fetchAndProcess()) setCacheStatus(null);
+    } catch {
+      setCacheStatus(`Offline · showing data from ${cachedDate}`);
     }
+  }, [fetchAndProcess]);
+
+  useEffect(() => spotifyService.onRequestEvent(event => {
+    switch (event.type) {
+      case 'progress':
+        setRequestStatus(event.total > 1 ? `${event.completed} of ${event.total} requests` : '');
+        break;
+      case 'rate-limited':
+        setRequestStatus(`Spotify asked us to slow down — resuming in ${Math.ceil(event.retryAfterMs / 1000)}s`);
+        break;
+      case 'retry':
+        setRequestStatus(`Spotify hiccuped — retrying (attempt ${event.attempt})`);
+        break;
+    }
+  }), []);
+
+  useEffect(() => {
+    const { route: initialRoute } = getRouterSnapshot();
 
-    if (code) {
-      window.history.replaceState({}, document.title, window.location.pathname);
+    // Shared links render from the fragment alone — no auth, no Spotify calls.
+    // Links from before routing point at /#share=…, so any path is accepted.
+    if (hasSharedDocumentary()) {
       setIsLoading(true);
-      spotifyService.handleCallback(code)
-        .then(() => { setIsAuthenticated(true); return fetchAndProcess(); })
-        .catch(err => { setError(`Authentication failed: ${err.message}`); setIsLoading(false); });
+      setLoadingStage('Opening a shared documentary...');
+      readSharedDocumentary()
+        .then(doc => {
+          setShared(doc);
+          if (initialRoute.name !== 'shared') navigate(`${docPath('shared')}${window.location.hash}`, { replace: true });
+        })
+        .catch(err => setError(err instanceof Error ? err.message : String(err)))
+        .finally(() => setIsLoading(false));
       return;
     }
+    if (initialRoute.name === 'shared') {
+      setError('This share link is missing its documentary. Copy the whole link, including everything after the #.');
+      return;
+    }
+
+    // Only the redirect target handles OAuth parameters
+    if (initialRoute.name === 'callback') {
+      const params = new URLSearchParams(window.location.search);
+      const code = params.get('code');
+      const authError = params.get('error');
+      const state = params.get('state');
+      navigate('/', { replace: true });
+
+      if (authError) {
+        spotifyService.abandonAuth();
+        const description = params.get('error_description');
+        setError(`Spotify authorization failed: ${authError}${description ? ` (${description})` : ''}`);
+        return;
+      }
+      if (code) {
+        setIsLoading(true);
+        spotifyService.handleCallback(code, state)
+          .then(() => { setIsAuthenticated(true); return fetchAndProcess(); })
+          .catch(err => { setError(`Authentication failed: ${err.message}`); setIsLoading(false); });
+        return;
+      }
+    }
 
     const hasToken = spotifyService.initializeFromStorage();
     if (hasToken) {
       setIsAuthenticated(true);
       setIsLoading(true);
-      fetchAndProcess().catch(() => {
+      loadCachedThenFetch().catch(() => {
         spotifyService.clearStorage();
         setIsAuthenticated(false);
         setIsLoading(false);
       });
     }
-  }, [fetchAndProcess]);
+  }, [fetchAndProcess, loadCachedThenFetch]);
 
-  const handleLogin = useCallback(() => { spotifyService.initiateAuth(); }, []);
-  const handleStart = useCallback(() => { setShowIntro(false); }, []);
+  const checks = useMemo(
+    () => diagnoseSpotifyConfig(config, isAuthenticated ? spotifyService.getGrantedScopes() : null),
+    [config, isAuthenticated]
+  );
+  const handleLogin = useCallback(() => {
+    // A login that can't succeed goes to setup instead of to Spotify
+    if (hasBlockingIssue(checks)) { navigate('/settings'); return; }
+    spotifyService.initiateAuth().catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, [checks]);
+  const handleSaveConfig = useCallback((override: ConfigOverride) => {
+    saveConfigOverride(override);
+    const next = resolveSpotifyConfig();
+    spotifyService.configure(next);
+    // configure() ends the session when the client ID changes
+    if (next.clientId !== config.clientId) setIsAuthenticated(false);
+    setConfig(next);
+  }, [config.clientId]);
+  const handleOpenSetup = useCallback(() => { navigate('/settings'); }, []);
+  const handleCloseSetup = useCallback(() => {
+    setSetupProblem(null);
+    navigate('/');
+  }, []);
+  const handleOpenCompare = useCallback(() => { navigate('/compare'); }, []);
+  const handleCloseCompare = useCallback(() => { navigate('/'); }, []);
+  const handleClaims = useCallback((next: IdentityClaims) => {
+    setClaims(next);
+    saveClaims(accountId, next);
+  }, [accountId]);
+  // Drops everything read from the current account; storage is untouched
+  const resetAccountState = useCallback((nextAccountId: string | null) => {
+    accountGeneration.current += 1;
+    importsRef.current.history = [];
+    setImportedCount(0);
+    setSource(null);
+    setIsLoading(false);
+    setCacheStatus(null);
+    setClaims(loadClaims(nextAccountId));
+    setAccountId(nextAccountId);
+    setAccounts(listAccounts());
+  }, []);
+  const handleSwitchAccount = useCallback((userId: string) => {
+    resetAccountState(userId);
+    const hasSession = spotifyService.switchAccount(userId);
+    setAccounts(listAccounts());
+    setIsAuthenticated(hasSession);
+    if (!hasSession) { navigate('/'); return; }
+    setIsLoading(true);
+    setLoadingStage('Switching accounts...');
+    loadCachedThenFetch().catch(err => {
+      setError(`Could not load that account: ${err instanceof Error ? err.message : String(err)}`);
+      setIsLoading(false);
+    });
+  }, [loadCachedThenFetch, resetAccountState]);
+  const handleAddAccount = useCallback(() => {
+    spotifyService.initiateAuth({ chooseAccount: true }).catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+  // Ends the current account's session; other accounts stay signed in
+  const endSession = useCallback(() => {
+    spotifyService.clearStorage();
+    resetAccountState(null);
+    setIsAuthenticated(false);
+  }, [resetAccountState]);
+  const handleLogout = useCallback(() => {
+    endSession();
+    navigate('/');
+  }, [endSession]);
+  const handleOpenPrivacy = useCallback(() => { navigate('/privacy'); }, []);
+  const handleClosePrivacy = useCallback(() => { navigate('/'); }, []);
+  const handleForgetAccount = useCallback((userId: string) => {
+    if (userId === spotifyService.getAccountId()) endSession();
+    else spotifyService.forgetAccount(userId);
+  }, [endSession]);
+  const handlePrivacyDeleted = useCallback(() => {
+    setAccounts(listAccounts());
+    setClaims(loadClaims(spotifyService.getAccountId()));
+  }, []);
+  const handleDeleteAll = useCallback(async () => {
+    endSession();
+    await deleteAllStoredData();
+    // The setup override went with everything else
+    const next = resolveSpotifyConfig();
+    spotifyService.configure(next);
+    setConfig(next);
+    setAccounts([]);
+    setClaims(null);
+    navigate('/');
+  }, [endSession]);
+  const handleImport = useCallback(async (files: FileList) => {
+    setIsLoading(true);
+    setLoadingStage('Reading your streaming history...');
+    try {
+      const history = await readStreamingHistoryFiles(Array.from(files));
+      importsRef.current.history = history;
+      setImportedCount(history.length);
+      await fetchAndProcess();
+    } catch (err) {
+      setError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+      setIsLoading(false);
+    }
+  }, [fetchAndProcess]);
+  const handleImportFeatureTable = useCallback(async (files: FileList) => {
+    setIsLoading(true);
+    setLoadingStage('Loading your audio-feature table...');
+    try {
+      const tables = await Promise.all(Array.from(files).map(readFeatureTableFile));
+      const table = new Map(tables.flatMap(t => Array.from(t.entries())));
+      importsRef.current.featureProviders = [createLookupTableProvider(table)];
+      setFeatureTableSize(table.size);
+      await fetchAndProcess();
+    } catch (err) {
+      setError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+      setIsLoading(false);
+    }
+  }, [fetchAndProcess]);
+  const handleStart = useCallback(() => { navigate(docPath('doc')); }, []);
+  const handleToggleMute = useCallback(() => {
+    soundtrackPlayer.setMuted(!muted);
+    setMuted(!muted);
+  }, [soundtrackPlayer, muted]);
+  const handlePlayCard = useCallback((uri: string) => {
+    const action = playingCard !== uri
+      ? trackPlayer.play(uri)
+      : playback.paused ? trackPlayer.resume() : trackPlayer.pause();
+    if (playingCard !== uri || playback.paused) {
+      // A full track and a preview loop shouldn't play over each other
+      soundtrackPlayer.setMuted(true);
+      setMuted(true);
+    }
+    setPlayingCard(uri);
+    // The card goes back to its play button; nothing else is playing
+    action.catch(() => setPlayingCard(null));
+  }, [trackPlayer, playingCard, playback.paused, soundtrackPlayer]);
+  const handleExitFilm = useCallback(() => { setFilmMode(false); }, []);
+  const handleReset = useCallback(() => {
+    // Leaving a shared documentary starts the app fresh, without the fragment
+    if (shared) { window.location.assign('/'); return; }
+    window.scrollTo(0, 0);
+    navigate('/');
+  }, [shared]);
   const handleChapterReveal = useCallback((id: string) => { setCurrentChapter(id); }, []);
 
-  // Scroll spy — IDs match Chapter's `number` prop: '1','2','3','4' and 'ch5' for verdict
+  // Scroll spy — IDs match Chapter's `number` prop: '1','2','3','4' and 'ch5' for verdict.
+  // The URL follows along, so the address bar always links to the current chapter.
   useEffect(() => {
     if (showIntro) return;
     const handleScroll = () => {
-      const chapters = ['hero', 'ch1', 'ch2', 'ch3', 'ch4', 'ch5'];
-      const names = ['PROLOGUE', 'CHAPTER ONE', 'CHAPTER TWO', 'CHAPTER THREE', 'CHAPTER FOUR', 'FINAL CHAPTER'];
-      for (let i = chapters.length - 1; i >= 0; i--) {
-        const el = document.getElementById(chapters[i]);
+      for (let i = DOC_SECTIONS.length - 1; i >= 0; i--) {
+        const section = DOC_SECTIONS[i];
+        const el = document.getElementById(section.sectionId);
         if (el && el.getBoundingClientRect().top <= window.innerHeight / 2) {
-          setCurrentChapter(names[i]);
+          setCurrentChapter(section.name);
+          setCurrentSection(section.sectionId);
+          syncChapter(section.slug);
           break;
         }
       }
@@ -195,50 +571,151 @@ function App() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, [showIntro]);
 
-  if (error) return <ErrorScreen message={error} onRetry={() => { setError(null); window.location.href = '/'; }} />;
+  // Deep links and back/forward land on their chapter once the documentary is
+  // on screen. Scroll-spy URL updates aren't navigations, so they don't jump.
+  useEffect(() => {
+    if (showIntro || isLoading) return;
+    const { route: current } = getRouterSnapshot();
+    if (current.name !== 'doc' && current.name !== 'shared') return;
+    const section = DOC_SECTIONS.find(s => s.slug === current.chapter);
+    const frame = requestAnimationFrame(() => {
+      if (!section || section.slug === 'prologue') window.scrollTo(0, 0);
+      else document.getElementById(section.sectionId)?.scrollIntoView();
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [navigationKey, showIntro, isLoading]);
+
+  // Unknown paths fall back to the intro
+  useEffect(() => {
+    if (route.name === 'not-found') navigate('/', { replace: true });
+  }, [route.name]);
+
+  // The scroll spy drives the soundtrack: each section crossfades to its cue
+  useEffect(() => { soundtrackPlayer.play(cue); }, [soundtrackPlayer, cue]);
+  useEffect(() => () => soundtrackPlayer.dispose(), [soundtrackPlayer]);
+
+  // The SDK only streams to Premium accounts, so nobody else loads it
+  const canStream = isAuthenticated && !shared && source?.user.product === 'premium';
+  useEffect(() => {
+    if (!canStream) return;
+    let cancelled = false;
+    let connected = createNoopPlayer();
+    createWebPlaybackPlayer({
+      getAccessToken: () => spotifyService.getAccessToken(),
+      startPlayback: (deviceId, uri) => spotifyService.startPlayback(deviceId, uri),
+    }).then(player => {
+      if (cancelled) { player.disconnect(); return; }
+      connected = player;
+      setTrackPlayer(player);
+    }).catch(() => {
+      if (!cancelled) setTrackPlayer(createNoopPlayer());
+    });
+    return () => {
+      cancelled = true;
+      connected.disconnect();
+      setTrackPlayer(createNoopPlayer());
+      setPlayback(IDLE_PLAYBACK);
+    };
+  }, [canStream]);
+  useEffect(() => trackPlayer.onStateChange(setPlayback), [trackPlayer]);
+  const playingUri = playback.uri && !playback.paused ? playingCard : null;
+
+  if (error) {
+    return (
+      <ErrorScreen message={error} onRetry={() => { setError(null); window.location.href = '/'; }}
+        onDiagnose={() => {
+          setSetupProblem(error);
+          setError(null);
+          navigate('/settings', { replace: true });
+        }} />
+    );
+  }
+  if (route.name === 'settings') {
+    return <Setup config={config} checks={checks} problem={setupProblem} onSave={handleSaveConfig} onClose={handleCloseSetup} />;
+  }
+  if (route.name === 'privacy') {
+    return (
+      <Privacy isAuthenticated={isAuthenticated} onForgetAccount={handleForgetAccount} onDeleted={handlePrivacyDeleted}
+        onDeleteAll={handleDeleteAll} onLogout={handleLogout} onClose={handleClosePrivacy} />
+    );
+  }
+  if (route.name === 'compare') {
+    return <Compare current={reportSource} onClose={handleCloseCompare} />;
+  }
 
   return (
     <div className="min-h-screen" style={{ background: 'var(--black)' }}>
-      <AnimatePresence>{isLoading && <LoadingScreen stage={loadingStage} />}</AnimatePresence>
+      <AnimatePresence>{isLoading && <LoadingScreen stage={loadingStage} detail={requestStatus} />}</AnimatePresence>
+      <AnimatePresence>{cacheStatus && !isLoading && <StatusNote text={cacheStatus} />}</AnimatePresence>
+      {shared && !isLoading && <StatusNote text="Shared documentary · read-only" />}
 
       <AnimatePresence>
         {showIntro && !isLoading && (
-          <Intro onStart={handleStart} isVisible={showIntro} onLogin={handleLogin} isAuthenticated={isAuthenticated} />
+          <Intro onStart={handleStart} isVisible={showIntro} onLogin={handleLogin} isAuthenticated={isAuthenticated}
+            onImport={handleImport} importedCount={importedCount}
+            onImportFeatureTable={handleImportFeatureTable} featureTableSize={featureTableSize}
+            claims={claims} claimArtistOptions={claimArtistOptions} onClaims={handleClaims}
+            onSetup={handleOpenSetup} onCompare={handleOpenCompare} onPrivacy={handleOpenPrivacy}
+            onLogout={handleLogout} accounts={accounts} onSwitchAccount={handleSwitchAccount} />
         )}
       </AnimatePresence>
 
       {!showIntro && !isLoading && (
         <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ duration: 1, delay: 0.4 }}>
-          <ProgressBar />
-          <Header chapterName={currentChapter} />
-          <ToneSwitcher currentTone={tone} onToneChange={setTone} />
+          {filmMode ? <FilmPlayer timeline={filmTimeline} onExit={handleExitFilm} /> : <ProgressBar />}
+          <Header chapterName={currentChapter} onPlayFilm={filmMode ? undefined : () => setFilmMode(true)}
+            soundtrack={soundtrack && hasSoundtrack(soundtrack) ? {
+              muted,
+              nowPlaying: cue && !muted ? `${cue.trackName} — ${cue.artistName}` : null,
+              onToggleMute: handleToggleMute,
+            } : undefined}
+            account={isAuthenticated && !shared ? {
+              currentId: accountId, accounts,
+              onSwitch: handleSwitchAccount, onAdd: handleAddAccount, onPrivacy: handleOpenPrivacy, onLogout: handleLogout,
+            } : undefined} />
+          {!shared && !filmMode && <ToneSwitcher currentTone={tone} onToneChange={setTone} />}
 
           <main id="main">
-            <Hero userName={uiData.userName} totalMinutes={uiData.totalMinutes} totalSongs={uiData.totalSongs} archetype={archetype} />
+            <Hero userName={uiData.userName} totalMinutes={uiData.totalMinutes} totalSongs={uiData.totalSongs} archetype={archetype}
+              daysOfData={uiData.daysOfData} isProjected={uiData.isProjected} />
 
-            <Chapter number="1" label={chapterTitles.chapter1.label} title={chapterTitles.chapter1.title}
+            <Chapter number="1" label={chapterTitles.chapter1.label} title={script?.chapters[0].title ?? chapterTitles.chapter1.title}
               narrative={content.chapter1.narrative} verdict={content.chapter1.verdict}
+              confrontation={script?.chapters[0].confrontation} dataPoints={script?.chapters[0].dataPoints}
               cards={uiData.topArtists} bars={uiData.genreDistribution}
+              onPlayCard={trackPlayer.available ? handlePlayCard : undefined} playingUri={playingUri}
               chartTitle="Genre Distribution — Full Year" onReveal={() => handleChapterReveal('CHAPTER ONE')} />
 
-            <Chapter number="2" label={chapterTitles.chapter2.label} title={chapterTitles.chapter2.title}
+            <Chapter number="2" label={chapterTitles.chapter2.label} title={script?.chapters[1].title ?? chapterTitles.chapter2.title}
               narrative={content.chapter2.narrative} verdict={content.chapter2.verdict}
+              confrontation={script?.chapters[1].confrontation} dataPoints={script?.chapters[1].dataPoints}
               onReveal={() => handleChapterReveal('CHAPTER TWO')}>
               <StatsRow stats={uiData.emotionalStats} />
               <EmotionalWave title="Emotional Volatility Index — Jan to Dec 2025" dataPoints={uiData.emotionalArc} />
             </Chapter>
 
-            <Chapter number="3" label={chapterTitles.chapter3.label} title={chapterTitles.chapter3.title}
+            <Chapter number="3" label={chapterTitles.chapter3.label} title={script?.chapters[2].title ?? chapterTitles.chapter3.title}
               narrative={content.chapter3.narrative} verdict={content.chapter3.verdict}
-              cards={uiData.loopedTracks} onReveal={() => handleChapterReveal('CHAPTER THREE')} />
+              confrontation={script?.chapters[2].confrontation} dataPoints={script?.chapters[2].dataPoints}
+              cards={uiData.loopedTracks} onReveal={() => handleChapterReveal('CHAPTER THREE')}
+              onPlayCard={trackPlayer.available ? handlePlayCard : undefined} playingUri={playingUri} />
 
-            <Chapter number="4" label={chapterTitles.chapter4.label} title={chapterTitles.chapter4.title}
+            <Chapter number="4" label={chapterTitles.chapter4.label} title={script?.chapters[3].title ?? chapterTitles.chapter4.title}
               narrative={content.chapter4.narrative} verdict={content.chapter4.verdict}
+              confrontation={script?.chapters[3].confrontation} dataPoints={script?.chapters[3].dataPoints}
               bars={uiData.identityDrift} chartTitle="Identity Drift Score — Genre Entropy Month-to-Month"
               onReveal={() => handleChapterReveal('CHAPTER FOUR')} />
 
+            {script && poster && (
+              <Summary summary={script.summary} userName={script.userName} poster={poster}
+                video={{ script, uiData, content, archetype }}
+                report={reportSource} onCompareReports={handleOpenCompare}
+                onShareLink={handleShareLink} onReset={handleReset} />
+            )}
+
             <FinalVerdict headline={content.final.headline} body={content.final.body}
-              archetype={archetype} totalMinutes={uiData.totalMinutes} totalSongs={uiData.totalSongs} />
+              archetype={archetype} totalMinutes={uiData.totalMinutes} totalSongs={uiData.totalSongs}
+              onShareLink={handleShareLink} reels={reels} tone={activeTone} />
           </main>
         </motion.div>
       )}
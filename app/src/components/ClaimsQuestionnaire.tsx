@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { X } from 'lucide-react';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import {
+  identityClaimsSchema, MAX_CLAIMED_ARTISTS, MAX_CLAIMED_GENRES, MAX_CLAIMED_MOODS,
+} from '@/lib/storage/claims';
+import type { ClaimedMood, IdentityClaims } from '@/types/spotify-analysis';
+
+// Broad on purpose — the user's real genre tags would give the answer away
+const GENRE_OPTIONS = [
+  'indie', 'pop', 'hip hop', 'r&b', 'rock', 'metal', 'punk', 'folk', 'jazz', 'classical',
+  'electronic', 'house', 'techno', 'ambient', 'country', 'latin', 'k-pop', 'soul', 'emo', 'lo-fi',
+];
+
+const MOOD_OPTIONS: { value: ClaimedMood; label: string }[] = [
+  { value: 'euphoric', label: 'Euphoric' },
+  { value: 'melancholic', label: 'Melancholic' },
+  { value: 'energetic', label: 'Energetic' },
+  { value: 'calm', label: 'Calm' },
+  { value: 'angry', label: 'Angry' },
+  { value: 'dreamy', label: 'Dreamy' },
+];
+
+interface ClaimsQuestionnaireProps {
+  // Suggestions for the artist picker; anything typed can be added too
+  artistOptions: string[];
+  initialClaims?: IdentityClaims | null;
+  onSubmit: (claims: IdentityClaims) => void;
+  onSkip: () => void;
+}
+
+function toggle<T>(values: T[], value: T, checked: boolean): T[] {
+  return checked ? [...values, value] : values.filter(v => v !== value);
+}
+
+export function ClaimsQuestionnaire({ artistOptions, initialClaims, onSubmit, onSkip }: ClaimsQuestionnaireProps) {
+  const form = useForm({
+    resolver: zodResolver(identityClaimsSchema),
+    defaultValues: initialClaims ?? { genres: [], artists: [], moods: [] },
+  });
+  const [artistQuery, setArtistQuery] = useState('');
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="claims-form">
+        <div className="claims-heading">Before the reveal — who do you think you are?</div>
+
+        <FormField
+          control={form.control}
+          name="genres"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="claims-label">Genres that define you</FormLabel>
+              <FormDescription className="claims-hint">Up to {MAX_CLAIMED_GENRES}</FormDescription>
+              <div className="claims-options">
+                {GENRE_OPTIONS.map(genre => (
+                  <label key={genre} className="claims-option">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value.includes(genre)}
+                        disabled={!field.value.includes(genre) && field.value.length >= MAX_CLAIMED_GENRES}
+                        onCheckedChange={checked => field.onChange(toggle(field.value, genre, checked === true))}
+                      />
+                    </FormControl>
+                    {genre}
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="artists"
+          render={({ field }) => {
+            const query = artistQuery.trim();
+            const canAdd = query !== '' && field.value.length < MAX_CLAIMED_ARTISTS &&
+              !field.value.some(a => a.toLowerCase() === query.toLowerCase());
+            const add = (artist: string) => {
+              if (field.value.length >= MAX_CLAIMED_ARTISTS || field.value.includes(artist)) return;
+              field.onChange([...field.value, artist]);
+              setArtistQuery('');
+            };
+            return (
+              <FormItem>
+                <FormLabel className="claims-label">Artists you'd name first</FormLabel>
+                <FormDescription className="claims-hint">Up to {MAX_CLAIMED_ARTISTS} · search or type any name</FormDescription>
+                {field.value.length > 0 && (
+                  <div className="claims-chips">
+                    {field.value.map(artist => (
+                      <button
+                        key={artist} type="button" className="claims-chip"
+                        onClick={() => field.onChange(field.value.filter(a => a !== artist))}
+                      >
+                        {artist} <X size={10} />
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <FormControl>
+                  <Command className="claims-command">
+                    <CommandInput placeholder="Search artists..." value={artistQuery} onValueChange={setArtistQuery} />
+                    {query !== '' && (
+                      <CommandList>
+                        <CommandEmpty>No match in your library.</CommandEmpty>
+                        <CommandGroup>
+                          {canAdd && !artistOptions.some(a => a.toLowerCase() === query.toLowerCase()) && (
+                            <CommandItem value={`add:${query}`} onSelect={() => add(query)}>
+                              Add "{query}"
+                            </CommandItem>
+                          )}
+                          {artistOptions
+                            .filter(a => !field.value.includes(a))
+                            .map(artist => (
+                              <CommandItem key={artist} value={artist} onSelect={() => add(artist)}>
+                                {artist}
+                              </CommandItem>
+                            ))}
+                        </CommandGroup>
+                      </CommandList>
+                    )}
+                  </Command>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            );
+          }}
+        />
+
+        <FormField
+          control={form.control}
+          name="moods"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="claims-label">How your music feels</FormLabel>
+              <FormDescription className="claims-hint">Up to {MAX_CLAIMED_MOODS}</FormDescription>
+              <div className="claims-options">
+                {MOOD_OPTIONS.map(mood => (
+                  <label key={mood.value} className="claims-option">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value.includes(mood.value)}
+                        disabled={!field.value.includes(mood.value) && field.value.length >= MAX_CLAIMED_MOODS}
+                        onCheckedChange={checked => field.onChange(toggle(field.value, mood.value, checked === true))}
+                      />
+                    </FormControl>
+                    {mood.label}
+                  </label>
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="share-btns">
+          <button type="button" className="share-btn" onClick={onSkip}>Skip</button>
+          <button type="submit" className="share-btn primary">Confront The Data</button>
+        </div>
+      </form>
+    </Form>
+  );
+}
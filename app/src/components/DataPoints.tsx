@@ -0,0 +1,43 @@
+import { motion } from 'framer-motion';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import type { DataPoint } from '@/types/spotify-analysis';
+
+interface DataPointsProps {
+  points: DataPoint[];
+  isInView?: boolean;
+}
+
+function TrendIcon({ trend }: { trend?: DataPoint['trend'] }) {
+  switch (trend) {
+    case 'up':
+      return <TrendingUp size={12} style={{ color: 'var(--amber)' }} />;
+    case 'down':
+      return <TrendingDown size={12} style={{ color: 'var(--red)' }} />;
+    default:
+      return <Minus size={12} style={{ color: 'var(--steel)' }} />;
+  }
+}
+
+export function DataPoints({ points, isInView = true }: DataPointsProps) {
+  return (
+    <div className="data-points">
+      {points.map((point, i) => (
+        <motion.div
+          key={point.label}
+          initial={{ opacity: 0, y: 10 }}
+          animate={isInView ? { opacity: 1, y: 0 } : {}}
+          transition={{ duration: 0.4, delay: 0.4 + i * 0.1 }}
+          className="data-point"
+          title={point.subtext}
+        >
+          <div className="data-point-label">{point.label}</div>
+          <div className="data-point-value">
+            {point.value}
+            {point.trend && <TrendIcon trend={point.trend} />}
+          </div>
+          {point.subtext && <div className="data-point-sub">{point.subtext}</div>}
+        </motion.div>
+      ))}
+    </div>
+  );
+}
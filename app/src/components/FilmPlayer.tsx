@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Maximize, Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+import { Slider } from '@/components/ui/slider';
+import { Kbd } from '@/components/ui/kbd';
+import { ProgressBar } from '@/components/ProgressBar';
+import { filmDuration, segmentAt, type FilmSegment } from '@/lib/narrative/film-timeline';
+
+interface FilmPlayerProps {
+  timeline: FilmSegment[];
+  onExit: () => void;
+}
+
+const SEEK_STEP_SECONDS = 10;
+// Within this far into a chapter, "previous" goes to the chapter before
+const RESTART_THRESHOLD_SECONDS = 2;
+// Controls fade out when the pointer rests this long during playback
+const IDLE_MS = 3000;
+
+function formatTime(seconds: number): string {
+  const s = Math.floor(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+// Plays the documentary as a timed presentation: auto-scrolls each section
+// over its segment of the timeline. Mounting it starts playback.
+export function FilmPlayer({ timeline, onExit }: FilmPlayerProps) {
+  const total = filmDuration(timeline);
+  const [playing, setPlaying] = useState(true);
+  const [elapsed, setElapsed] = useState(0);
+  const [idle, setIdle] = useState(false);
+  const elapsedRef = useRef(0);
+  const segmentIndex = segmentAt(timeline, elapsed);
+
+  const seek = useCallback((time: number) => {
+    const t = Math.min(Math.max(time, 0), total);
+    elapsedRef.current = t;
+    setElapsed(t);
+
+    const segment = timeline[segmentAt(timeline, t)];
+    const el = segment && document.getElementById(segment.sectionId);
+    if (!el) return;
+    // Pan from the top of the section to its bottom over the segment
+    const top = el.getBoundingClientRect().top + window.scrollY;
+    const travel = Math.max(0, el.offsetHeight - window.innerHeight);
+    const progress = Math.min((t - segment.start) / segment.duration, 1);
+    window.scrollTo({ top: top + travel * progress, behavior: 'instant' });
+  }, [timeline, total]);
+
+  const toggle = useCallback(() => {
+    if (!playing && elapsedRef.current >= total) seek(0);
+    setIdle(false);
+    setPlaying(p => !p);
+  }, [playing, total, seek]);
+
+  const skip = useCallback((delta: 1 | -1) => {
+    const index = segmentAt(timeline, elapsedRef.current);
+    const current = timeline[index];
+    const target = delta < 0 && elapsedRef.current - current.start > RESTART_THRESHOLD_SECONDS
+      ? index
+      : index + delta;
+    if (target >= timeline.length) seek(total);
+    else seek(timeline[Math.max(target, 0)].start);
+  }, [timeline, total, seek]);
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    else document.documentElement.requestFullscreen?.().catch(() => {});
+  }, []);
+
+  const exit = useCallback(() => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    onExit();
+  }, [onExit]);
+
+  // Playback clock
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = elapsedRef.current + (now - last) / 1000;
+      last = now;
+      seek(next);
+      if (next >= total) { setPlaying(false); return; }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, total, seek]);
+
+  // Scrolling by hand takes over from the clock
+  useEffect(() => {
+    const pause = () => setPlaying(false);
+    window.addEventListener('wheel', pause, { passive: true });
+    window.addEventListener('touchmove', pause, { passive: true });
+    return () => {
+      window.removeEventListener('wheel', pause);
+      window.removeEventListener('touchmove', pause);
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, [role="dialog"]')) return;
+      switch (e.key) {
+        case ' ':
+        case 'k':
+          toggle();
+          break;
+        case 'ArrowLeft':
+          seek(elapsedRef.current - SEEK_STEP_SECONDS);
+          break;
+        case 'ArrowRight':
+          seek(elapsedRef.current + SEEK_STEP_SECONDS);
+          break;
+        case 'ArrowUp':
+          skip(-1);
+          break;
+        case 'ArrowDown':
+          skip(1);
+          break;
+        case 'f':
+        case 'F':
+          toggleFullscreen();
+          break;
+        case 'Escape':
+          exit();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [toggle, seek, skip, toggleFullscreen, exit]);
+
+  // Keep the picture clean on a TV: hide controls while the pointer rests
+  useEffect(() => {
+    if (!playing) return;
+    let timer = setTimeout(() => setIdle(true), IDLE_MS);
+    const wake = () => {
+      setIdle(false);
+      clearTimeout(timer);
+      timer = setTimeout(() => setIdle(true), IDLE_MS);
+    };
+    window.addEventListener('pointermove', wake);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('pointermove', wake);
+    };
+  }, [playing]);
+
+  return (
+    <>
+      <ProgressBar progress={total > 0 ? elapsed / total : 0} />
+      <div className={`film-controls ${idle && playing ? 'idle' : ''}`}>
+        <div className="film-row">
+          <button className="film-btn" onClick={() => skip(-1)} aria-label="Previous chapter"><SkipBack size={14} /></button>
+          <button className="film-btn" onClick={toggle} aria-label={playing ? 'Pause' : 'Play'}>
+            {playing ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <button className="film-btn" onClick={() => skip(1)} aria-label="Next chapter"><SkipForward size={14} /></button>
+          <div className="film-time">{formatTime(elapsed)} / {formatTime(total)}</div>
+          <div className="film-segment">{timeline[segmentIndex]?.label}</div>
+          <button className="film-btn" onClick={toggleFullscreen} aria-label="Fullscreen"><Maximize size={14} /></button>
+          <button className="film-btn" onClick={exit} aria-label="Exit film mode"><X size={14} /></button>
+        </div>
+        <div className="film-seek">
+          {timeline.slice(1).map(segment => (
+            <div key={segment.sectionId} className="film-marker" style={{ left: `${(segment.start / total) * 100}%` }} />
+          ))}
+          <Slider value={[elapsed]} max={total} step={0.1} onValueChange={([value]) => seek(value)} aria-label="Seek" />
+        </div>
+        <div className="film-hints">
+          <span><Kbd>Space</Kbd> play/pause</span>
+          <span><Kbd>←</Kbd><Kbd>→</Kbd> {SEEK_STEP_SECONDS}s</span>
+          <span><Kbd>↑</Kbd><Kbd>↓</Kbd> chapter</span>
+          <span><Kbd>F</Kbd> fullscreen</span>
+          <span><Kbd>Esc</Kbd> exit</span>
+        </div>
+      </div>
+    </>
+  );
+}
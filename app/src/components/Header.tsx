@@ -1,10 +1,43 @@
 import { motion } from 'framer-motion';
+import { Check, LogOut, Play, Shield, UserPlus, Volume2, VolumeX } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { StoredAccount } from '@/lib/storage/accounts';
 
 interface HeaderProps {
   chapterName: string;
+  // Hidden while film mode is already playing
+  onPlayFilm?: () => void;
+  // Only offered when at least one chapter has a playable preview
+  soundtrack?: {
+    muted: boolean;
+    nowPlaying: string | null;
+    onToggleMute: () => void;
+  };
+  // Signed-in sessions only; shared documentaries belong to nobody here
+  account?: {
+    currentId: string | null;
+    accounts: StoredAccount[];
+    onSwitch: (userId: string) => void;
+    onAdd: () => void;
+    onPrivacy: () => void;
+    onLogout: () => void;
+  };
 }
 
-export function Header({ chapterName }: HeaderProps) {
+function AccountAvatar({ account }: { account: StoredAccount | undefined }) {
+  return (
+    <Avatar className="account-avatar">
+      {account?.imageUrl && <AvatarImage src={account.imageUrl} alt="" />}
+      <AvatarFallback className="account-avatar-fallback">{account?.displayName.charAt(0).toUpperCase() ?? '?'}</AvatarFallback>
+    </Avatar>
+  );
+}
+
+export function Header({ chapterName, onPlayFilm, soundtrack, account }: HeaderProps) {
+  const current = account?.accounts.find(a => a.id === account.currentId);
   return (
     <motion.header
       className="doc-header"
@@ -23,6 +56,58 @@ export function Header({ chapterName }: HeaderProps) {
       >
         — {chapterName}
       </motion.div>
+      <div className="header-actions">
+        {soundtrack && (
+          <button
+            className="film-toggle"
+            onClick={soundtrack.onToggleMute}
+            aria-label={soundtrack.muted ? 'Play soundtrack' : 'Mute soundtrack'}
+            title={soundtrack.nowPlaying ?? undefined}
+          >
+            {soundtrack.muted
+              ? <VolumeX size={10} style={{ display: 'inline', marginRight: 6 }} />
+              : <Volume2 size={10} style={{ display: 'inline', marginRight: 6 }} />}
+            {soundtrack.muted ? 'Sound Off' : 'Sound On'}
+          </button>
+        )}
+        {onPlayFilm && (
+          <button className="film-toggle" onClick={onPlayFilm}>
+            <Play size={10} style={{ display: 'inline', marginRight: 6 }} />
+            Film Mode
+          </button>
+        )}
+        {account && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="account-toggle" aria-label={`Account: ${current?.displayName ?? 'unknown'}`}>
+                <AccountAvatar account={current} />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="share-menu" align="end">
+              <DropdownMenuLabel>Accounts on this browser</DropdownMenuLabel>
+              {account.accounts.map(a => (
+                <DropdownMenuItem key={a.id} onSelect={() => { if (a.id !== account.currentId) account.onSwitch(a.id); }}>
+                  <AccountAvatar account={a} />
+                  {a.displayName}
+                  {a.id === account.currentId && <Check size={12} className="ml-auto" />}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={account.onAdd}>
+                <UserPlus size={12} /> Add Account
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={account.onPrivacy}>
+                <Shield size={12} /> Privacy & Data
+              </DropdownMenuItem>
+              {current && (
+                <DropdownMenuItem onSelect={account.onLogout}>
+                  <LogOut size={12} /> Log Out {current.displayName}
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
     </motion.header>
   );
 }
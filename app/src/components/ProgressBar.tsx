@@ -1,6 +1,11 @@
 import { motion, useScroll, useSpring } from 'framer-motion';
 
-export function ProgressBar() {
+interface ProgressBarProps {
+  // 0-1 from an external clock (film mode); scroll position otherwise
+  progress?: number;
+}
+
+export function ProgressBar({ progress }: ProgressBarProps) {
   const { scrollYProgress } = useScroll();
   const scaleX = useSpring(scrollYProgress, {
     stiffness: 100,
@@ -11,7 +16,7 @@ export function ProgressBar() {
   return (
     <motion.div
       className="progress-bar"
-      style={{ scaleX, transformOrigin: '0%' }}
+      style={{ scaleX: progress ?? scaleX, transformOrigin: '0%' }}
     />
   );
 }
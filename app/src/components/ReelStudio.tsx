@@ -0,0 +1,86 @@
+import { useState, type ReactNode } from 'react';
+import { Copy, FileText, Subtitles } from 'lucide-react';
+import {
+  Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { downloadReel, formatReelText, reelDuration } from '@/lib/share/reel-export';
+import type { ToneMode } from '@/lib/narrative/toneData';
+import type { ReelContent } from '@/types/spotify-analysis';
+
+interface ReelStudioProps {
+  reels: Record<ToneMode, ReelContent>;
+  initialTone: ToneMode;
+  // The button that opens the studio
+  children: ReactNode;
+}
+
+const TONES: { id: ToneMode; label: string }[] = [
+  { id: 'brutal', label: 'Brutal' },
+  { id: 'poetic', label: 'Poetic' },
+  { id: 'analytical', label: 'Analytical' },
+  { id: 'motivational', label: 'Motivational' },
+];
+
+export function ReelStudio({ reels, initialTone, children }: ReelStudioProps) {
+  const [tone, setTone] = useState<ToneMode>(initialTone);
+  const [copied, setCopied] = useState(false);
+  const reel = reels[tone];
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(formatReelText(reel)).catch(() => {});
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog onOpenChange={open => open && setTone(initialTone)}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="reel-studio">
+        <DialogHeader>
+          <DialogTitle className="reel-title">Reel Studio</DialogTitle>
+          <DialogDescription className="reel-meta">
+            {reel.scenes.length} scenes · {reelDuration(reel).toFixed(0)}s · Audio: {reel.audioSuggestion}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tone} onValueChange={value => setTone(value as ToneMode)}>
+          <TabsList className="reel-tabs">
+            {TONES.map(t => (
+              <TabsTrigger key={t.id} value={t.id} className="reel-tab">{t.label}</TabsTrigger>
+            ))}
+          </TabsList>
+          {TONES.map(t => (
+            <TabsContent key={t.id} value={t.id}>
+              <ol className="reel-scenes">
+                {reels[t.id].scenes.map((scene, i) => (
+                  <li key={i} className="reel-scene">
+                    <div className="reel-scene-time">{scene.start.toFixed(1)}s – {scene.end.toFixed(1)}s</div>
+                    <div className="reel-scene-vo">{scene.voiceOver}</div>
+                    <div className="reel-scene-visual">{scene.visual}</div>
+                  </li>
+                ))}
+              </ol>
+              <div className="reel-meta">{reels[t.id].hashtags.join(' ')}</div>
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        <div className="share-btns">
+          <button className="share-btn" onClick={handleCopy}>
+            <Copy size={12} style={{ display: 'inline', marginRight: 8 }} />
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+          <button className="share-btn" onClick={() => downloadReel(reel, 'txt')}>
+            <FileText size={12} style={{ display: 'inline', marginRight: 8 }} />
+            .txt
+          </button>
+          <button className="share-btn" onClick={() => downloadReel(reel, 'srt')}>
+            <Subtitles size={12} style={{ display: 'inline', marginRight: 8 }} />
+            .srt
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
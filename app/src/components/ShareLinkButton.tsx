@@ -0,0 +1,46 @@
+import { useState, type ReactNode } from 'react';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface ShareLinkButtonProps {
+  // Builds a read-only link; without it the current URL is copied as-is
+  onShareLink?: (anonymize: boolean) => Promise<string>;
+  className?: string;
+  children: ReactNode;
+}
+
+export function ShareLinkButton({ onShareLink, className = 'share-btn', children }: ShareLinkButtonProps) {
+  const [status, setStatus] = useState<'idle' | 'working' | 'copied'>('idle');
+
+  const copy = async (anonymize: boolean) => {
+    setStatus('working');
+    try {
+      const url = onShareLink ? await onShareLink(anonymize) : window.location.href;
+      await navigator.clipboard.writeText(url);
+      setStatus('copied');
+      setTimeout(() => setStatus('idle'), 2000);
+    } catch (err) {
+      setStatus('idle');
+      alert(`Could not create the link: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const label = status === 'copied' ? 'Copied!' : status === 'working' ? 'Encoding...' : children;
+
+  if (!onShareLink) {
+    return <button className={className} onClick={() => copy(false)}>{label}</button>;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className={className} disabled={status === 'working'}>{label}</button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="share-menu">
+        <DropdownMenuItem onSelect={() => copy(false)}>Copy read-only link</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => copy(true)}>Copy link without my name</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
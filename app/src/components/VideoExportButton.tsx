@@ -0,0 +1,50 @@
+import { useRef, useState } from 'react';
+import { Film } from 'lucide-react';
+import {
+  documentaryVideoDuration, downloadDocumentaryVideo, isVideoExportSupported, type VideoSource,
+} from '@/lib/share/video';
+
+interface VideoExportButtonProps {
+  source: VideoSource;
+}
+
+export function VideoExportButton({ source }: VideoExportButtonProps) {
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  if (!isVideoExportSupported()) return null;
+
+  const handleClick = async () => {
+    // A second click while rendering cancels
+    if (abortRef.current) {
+      abortRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      await downloadDocumentaryVideo(source, { onProgress: setProgress, signal: controller.signal });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        alert(`Could not render the video: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const minutes = Math.ceil(documentaryVideoDuration(source.script) / 60);
+
+  return (
+    <button
+      className="share-btn"
+      onClick={handleClick}
+      title={`Renders in real time (about ${minutes} min) — keep this tab visible`}
+    >
+      <Film size={12} style={{ display: 'inline', marginRight: 8 }} />
+      {progress === null ? 'Video' : `${Math.round(progress * 100)}% · Cancel`}
+    </button>
+  );
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getRouterSnapshot, subscribeRouter, type RouterSnapshot } from '@/lib/routing/router';
+
+export function useRoute(): RouterSnapshot {
+  return useSyncExternalStore(subscribeRouter, getRouterSnapshot);
+}
@@ -1,4 +1,7 @@
-import type { SpotifyArtist, SpotifyTrack, GenreWeight, IdentityProfile, QuarterlyListening, PhaseTransition } from '@/types/spotify-analysis';
+import type {
+  SpotifyArtist, SpotifyTrack, GenreWeight, IdentityProfile, QuarterlyListening, PhaseTransition, TemporalProfile,
+  IdentityClaims, ClaimedMood, ClaimGap,
+} from '@/types/spotify-analysis';
 
 // Mainstream genre keywords
 const MAINSTREAM_GENRES = [
@@ -101,8 +104,89 @@ function aggregateGenres(artists: SpotifyArtist[]): GenreWeight[] {
   return genres;
 }
 
-// Detect significant phase shifts between quarters
-function detectPhaseShifts(quarterlyData: QuarterlyListening[]): PhaseTransition[] {
+// Where each claimable mood sits on the valence/energy plane
+const MOOD_PROFILES: Record<ClaimedMood, { valence: number; energy: number }> = {
+  euphoric: { valence: 0.8, energy: 0.75 },
+  melancholic: { valence: 0.2, energy: 0.35 },
+  energetic: { valence: 0.55, energy: 0.85 },
+  calm: { valence: 0.5, energy: 0.25 },
+  angry: { valence: 0.25, energy: 0.85 },
+  dreamy: { valence: 0.4, energy: 0.35 },
+};
+
+// Mood distance at which a claim counts as no match at all
+const MOOD_MISS_DISTANCE = 0.5;
+
+const genresMatch = (a: string, b: string) => a.includes(b) || b.includes(a);
+
+// Score the distance between who the user says they are and what they play
+export function calculateClaimGap(
+  claims: IdentityClaims,
+  actualTopGenres: GenreWeight[],
+  topArtists: SpotifyArtist[],
+  listeningMood?: { valence: number; energy: number }
+): ClaimGap | null {
+  const actualGenres = actualTopGenres.map(g => g.name.toLowerCase());
+  const unmatchedGenres = claims.genres.filter(g => !actualGenres.some(a => genresMatch(a, g.toLowerCase())));
+  const genreMatch = claims.genres.length > 0
+    ? 1 - unmatchedGenres.length / claims.genres.length
+    : null;
+
+  const actualArtists = new Set(topArtists.map(a => a.name.toLowerCase()));
+  const unmatchedArtists = claims.artists.filter(a => !actualArtists.has(a.toLowerCase()));
+  const artistMatch = claims.artists.length > 0
+    ? 1 - unmatchedArtists.length / claims.artists.length
+    : null;
+
+  let moodMatch: number | null = null;
+  if (claims.moods.length > 0 && listeningMood) {
+    const claimed = claims.moods.map(m => MOOD_PROFILES[m]);
+    const valence = claimed.reduce((s, m) => s + m.valence, 0) / claimed.length;
+    const energy = claimed.reduce((s, m) => s + m.energy, 0) / claimed.length;
+    const distance = Math.hypot(valence - listeningMood.valence, energy - listeningMood.energy);
+    moodMatch = 1 - Math.min(distance / MOOD_MISS_DISTANCE, 1);
+  }
+
+  const matches = [genreMatch, artistMatch, moodMatch].filter((m): m is number => m !== null);
+  if (matches.length === 0) return null;
+
+  return {
+    score: 1 - matches.reduce((s, m) => s + m, 0) / matches.length,
+    genreMatch,
+    artistMatch,
+    moodMatch,
+    unmatchedGenres,
+    unmatchedArtists,
+  };
+}
+
+// Confrontation for the claim gap, or null when nothing was claimed
+function generateClaimConfrontation(profile: IdentityProfile): string | null {
+  const { claimGap, claimedGenres, claimedArtists, claimedMoods, actualTopGenres, topArtists } = profile;
+  if (!claimGap) return null;
+  const gapPct = `${(claimGap.score * 100).toFixed(0)}%`;
+  const claimed = [...claimedGenres, ...claimedArtists].slice(0, 3).join(', ') || claimedMoods.join(' and ');
+
+  if (claimGap.score >= 0.6) {
+    const misses = [...claimGap.unmatchedGenres, ...claimGap.unmatchedArtists].slice(0, 2);
+    const actual = [actualTopGenres[0]?.name, topArtists[0]?.name].filter(Boolean).join(' and ');
+    return `You described yourself as ${claimed}. The data barely recognizes that person — a ${gapPct} claim gap. ${
+      misses.length > 0 ? `${misses.join(' and ')} never made your top rotation.` : 'Your moods told a different story.'
+    }${actual ? ` What you actually lived in: ${actual}.` : ''}`;
+  }
+
+  if (claimGap.score <= 0.25) {
+    return `You said ${claimed}, and the data agrees — only a ${gapPct} claim gap. Most people describe the listener they want to be. You described the one you are.`;
+  }
+
+  const misses = [...claimGap.unmatchedGenres, ...claimGap.unmatchedArtists];
+  return `Half right. A ${gapPct} claim gap: ${
+    misses.length > 0 ? `${misses.slice(0, 2).join(' and ')} belong to the listener you describe, not the one who presses play.` : 'the sounds match, the mood doesn\'t.'
+  }`;
+}
+
+// Detect significant phase shifts between consecutive periods (months or quarters)
+export function detectPhaseShifts(quarterlyData: QuarterlyListening[]): PhaseTransition[] {
   const shifts: PhaseTransition[] = [];
   
   for (let i = 1; i < quarterlyData.length; i++) {
@@ -189,6 +273,9 @@ function interpretShift(before: QuarterlyListening, after: QuarterlyListening):
 
 // Generate identity confrontation text
 export function generateIdentityConfrontation(profile: IdentityProfile): string {
+  const claimConfrontation = generateClaimConfrontation(profile);
+  if (claimConfrontation) return claimConfrontation;
+
   const { mainstreamPercentage, hipsterScore, claimedGenres, actualTopGenres } = profile;
   
   // Check for claimed vs actual mismatch
@@ -230,7 +317,8 @@ export function generateIdentityConfrontation(profile: IdentityProfile): string
 export function calculateIdentityProfile(
   topArtists: SpotifyArtist[],
   topTracks: SpotifyTrack[],
-  claimedGenres: string[] = []
+  claims: IdentityClaims = { genres: [], artists: [], moods: [] },
+  listeningMood?: { valence: number; energy: number }
 ): IdentityProfile {
   // Aggregate genres from artists
   const actualTopGenres = aggregateGenres(topArtists);
@@ -245,7 +333,10 @@ export function calculateIdentityProfile(
   const artistDiversity = calculateArtistDiversity(topTracks);
   
   return {
-    claimedGenres,
+    claimedGenres: claims.genres,
+    claimedArtists: claims.artists,
+    claimedMoods: claims.moods,
+    claimGap: calculateClaimGap(claims, actualTopGenres, topArtists, listeningMood),
     actualTopGenres,
     mainstreamPercentage,
     hipsterScore,
@@ -254,6 +345,12 @@ export function calculateIdentityProfile(
   };
 }
 
+// Periods drift is measured over: real months once the history spans two,
+// otherwise the three time-range proxy
+export function selectDriftPeriods(temporal: TemporalProfile): QuarterlyListening[] {
+  return temporal.monthlyBreakdown.length >= 2 ? temporal.monthlyBreakdown : temporal.quarterlyBreakdown;
+}
+
 // Calculate overall identity drift from quarterly data
 export function calculateIdentityDrift(quarterlyData: QuarterlyListening[]): {
   shifts: PhaseTransition[];
@@ -0,0 +1,155 @@
+import type { SpotifyPlayHistory, SpotifyAudioFeatures, ObsessionEvent } from '@/types/spotify-analysis';
+
+// A burst is judged inside this sliding window
+const WINDOW_MS = 24 * 60 * 60 * 1000;
+// Minimum plays inside one window before a subject can count as a burst
+const MIN_TRACK_PLAYS = 3;
+const MIN_ARTIST_PLAYS = 5;
+// Share of the window's plays the subject must take...
+const MIN_WINDOW_SHARE = 0.2;
+// ...and how far above its baseline share that has to be
+const MIN_LIFT = 3;
+const MAX_EVENTS = 10;
+
+interface Subject {
+  kind: 'track' | 'artist';
+  // Indexes into the chronological play list
+  plays: number[];
+}
+
+// Check if timestamp is during night hours (0-5 AM), as in nocturnal-analysis
+function isNightTime(timestamp: number): boolean {
+  return new Date(timestamp).getHours() <= 5;
+}
+
+// First index whose time is > t (times sorted ascending)
+function upperBound(times: number[], t: number): number {
+  let lo = 0, hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= t) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+function lowerBound(times: number[], t: number): number {
+  let lo = 0, hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < t) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+function groupSubjects(plays: SpotifyPlayHistory[]): Subject[] {
+  const subjects = new Map<string, Subject>();
+  const add = (key: string, kind: Subject['kind'], index: number) => {
+    if (!subjects.has(key)) subjects.set(key, { kind, plays: [] });
+    subjects.get(key)!.plays.push(index);
+  };
+  plays.forEach((play, i) => {
+    add(`track:${play.track.id}`, 'track', i);
+    const artist = play.track.artists[0];
+    if (artist) add(`artist:${artist.id}`, 'artist', i);
+  });
+  return Array.from(subjects.values());
+}
+
+// Returns [first, last] play indexes (into subject.plays) of each burst, with
+// overlapping qualifying windows merged into one
+function findBursts(subject: Subject, times: number[], distinctSubjects: number): [number, number][] {
+  const minPlays = subject.kind === 'track' ? MIN_TRACK_PLAYS : MIN_ARTIST_PLAYS;
+  if (subject.plays.length < minPlays) return [];
+
+  const subjectTimes = subject.plays.map(i => times[i]);
+  // With little history outside the window, fall back to an even split
+  const uniformShare = 1 / Math.max(distinctSubjects, 1);
+  const bursts: [number, number][] = [];
+
+  for (let s = 0; s < subjectTimes.length; s++) {
+    const start = subjectTimes[s];
+    const end = start + WINDOW_MS;
+    const e = upperBound(subjectTimes, end) - 1;
+    const count = e - s + 1;
+    if (count < minPlays) continue;
+
+    const windowTotal = upperBound(times, end) - lowerBound(times, start);
+    const outsideTotal = times.length - windowTotal;
+    const outsideCount = subjectTimes.length - count;
+    const baseline = outsideTotal >= windowTotal
+      ? Math.max(outsideCount / outsideTotal, uniformShare)
+      : uniformShare;
+    const share = count / windowTotal;
+    if (share < MIN_WINDOW_SHARE || share < baseline * MIN_LIFT) continue;
+
+    const last = bursts[bursts.length - 1];
+    if (last && s <= last[1]) last[1] = Math.max(last[1], e);
+    else bursts.push([s, e]);
+  }
+  return bursts;
+}
+
+function mostPlayedTrack(plays: SpotifyPlayHistory[]): SpotifyPlayHistory['track'] {
+  const counts = new Map<string, { track: SpotifyPlayHistory['track']; count: number }>();
+  plays.forEach(p => {
+    const entry = counts.get(p.track.id) ?? { track: p.track, count: 0 };
+    entry.count++;
+    counts.set(p.track.id, entry);
+  });
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count)[0].track;
+}
+
+// Finds bursts where one track — or one artist — dominates a 24-hour window
+// far above its share of the rest of the history
+export function detectObsessionEvents(
+  playHistory: SpotifyPlayHistory[],
+  audioFeatures: Map<string, SpotifyAudioFeatures>
+): ObsessionEvent[] {
+  const plays = [...playHistory].sort(
+    (a, b) => new Date(a.played_at).getTime() - new Date(b.played_at).getTime()
+  );
+  const times = plays.map(p => new Date(p.played_at).getTime());
+  const subjects = groupSubjects(plays);
+  const distinctTracks = subjects.filter(s => s.kind === 'track').length;
+  const distinctArtists = subjects.length - distinctTracks;
+
+  const events: ObsessionEvent[] = [];
+  subjects.forEach(subject => {
+    const distinct = subject.kind === 'track' ? distinctTracks : distinctArtists;
+    findBursts(subject, times, distinct).forEach(([first, last]) => {
+      const burstPlays = subject.plays.slice(first, last + 1).map(i => plays[i]);
+      const valences = burstPlays
+        .map(p => audioFeatures.get(p.track.id)?.valence)
+        .filter((v): v is number => v !== undefined);
+      const valence = valences.length > 0 ? valences.reduce((a, b) => a + b, 0) / valences.length : 0.5;
+      const nightPlays = burstPlays.filter(p => isNightTime(new Date(p.played_at).getTime())).length;
+      const track = subject.kind === 'track' ? burstPlays[0].track : mostPlayedTrack(burstPlays);
+      const artist = track.artists[0];
+
+      events.push({
+        kind: subject.kind,
+        trackId: track.id,
+        trackName: track.name,
+        artistName: artist?.name ?? 'Unknown Artist',
+        playCount: burstPlays.length,
+        timeRange: {
+          start: burstPlays[0].played_at,
+          end: burstPlays[burstPlays.length - 1].played_at,
+          valence,
+          repeatCount: burstPlays.length,
+        },
+        isNightTime: nightPlays > burstPlays.length / 2,
+      });
+    });
+  });
+
+  // An artist burst carried by one track says nothing the track burst doesn't
+  const trackEvents = events.filter(e => e.kind === 'track');
+  const overlaps = (a: ObsessionEvent, b: ObsessionEvent) =>
+    Date.parse(a.timeRange.start) <= Date.parse(b.timeRange.end) &&
+    Date.parse(b.timeRange.start) <= Date.parse(a.timeRange.end);
+  return events
+    .filter(e => e.kind === 'track' || !trackEvents.some(t => t.trackId === e.trackId && overlaps(t, e)))
+    .sort((a, b) => b.playCount - a.playCount)
+    .slice(0, MAX_EVENTS);
+}
@@ -0,0 +1,105 @@
+/**
+ * genre-estimator.ts
+ *
+ * Last-resort provider: estimates a track's audio features from its artists'
+ * genres. Coarse by design — every result is flagged `estimated` so the
+ * narrative can soften what it claims.
+ */
+
+import type { SpotifyArtist, SpotifyAudioFeatures, ResolvedAudioFeatures } from '@/types/spotify-analysis';
+import type { AudioFeatureProvider } from '@/lib/audio-features/provider';
+
+type GenreProfile = Pick<SpotifyAudioFeatures,
+  'valence' | 'energy' | 'danceability' | 'acousticness' | 'instrumentalness' | 'speechiness' | 'tempo'>;
+
+// Rough per-genre averages. Matched by substring, most specific first.
+const GENRE_PROFILES: [string, GenreProfile][] = [
+  ['sad', { valence: 0.2, energy: 0.3, danceability: 0.4, acousticness: 0.6, instrumentalness: 0.05, speechiness: 0.04, tempo: 100 }],
+  ['ambient', { valence: 0.15, energy: 0.2, danceability: 0.25, acousticness: 0.8, instrumentalness: 0.8, speechiness: 0.04, tempo: 90 }],
+  ['classical', { valence: 0.25, energy: 0.15, danceability: 0.25, acousticness: 0.95, instrumentalness: 0.85, speechiness: 0.04, tempo: 100 }],
+  ['lo-fi', { valence: 0.4, energy: 0.3, danceability: 0.65, acousticness: 0.6, instrumentalness: 0.7, speechiness: 0.06, tempo: 85 }],
+  ['dream pop', { valence: 0.3, energy: 0.45, danceability: 0.45, acousticness: 0.35, instrumentalness: 0.2, speechiness: 0.03, tempo: 110 }],
+  ['folk', { valence: 0.4, energy: 0.35, danceability: 0.5, acousticness: 0.7, instrumentalness: 0.02, speechiness: 0.04, tempo: 110 }],
+  ['singer-songwriter', { valence: 0.35, energy: 0.35, danceability: 0.5, acousticness: 0.65, instrumentalness: 0.01, speechiness: 0.04, tempo: 110 }],
+  ['emo', { valence: 0.3, energy: 0.75, danceability: 0.45, acousticness: 0.05, instrumentalness: 0.01, speechiness: 0.06, tempo: 140 }],
+  ['metal', { valence: 0.25, energy: 0.9, danceability: 0.35, acousticness: 0.01, instrumentalness: 0.2, speechiness: 0.08, tempo: 130 }],
+  ['punk', { valence: 0.5, energy: 0.9, danceability: 0.45, acousticness: 0.02, instrumentalness: 0.02, speechiness: 0.07, tempo: 160 }],
+  ['indie', { valence: 0.4, energy: 0.55, danceability: 0.5, acousticness: 0.3, instrumentalness: 0.1, speechiness: 0.04, tempo: 120 }],
+  ['rock', { valence: 0.45, energy: 0.75, danceability: 0.45, acousticness: 0.1, instrumentalness: 0.05, speechiness: 0.05, tempo: 125 }],
+  ['r&b', { valence: 0.45, energy: 0.55, danceability: 0.65, acousticness: 0.25, instrumentalness: 0.01, speechiness: 0.1, tempo: 105 }],
+  ['soul', { valence: 0.55, energy: 0.5, danceability: 0.6, acousticness: 0.35, instrumentalness: 0.02, speechiness: 0.06, tempo: 105 }],
+  ['jazz', { valence: 0.5, energy: 0.35, danceability: 0.55, acousticness: 0.7, instrumentalness: 0.5, speechiness: 0.05, tempo: 115 }],
+  ['hip hop', { valence: 0.5, energy: 0.65, danceability: 0.75, acousticness: 0.15, instrumentalness: 0.01, speechiness: 0.25, tempo: 110 }],
+  ['rap', { valence: 0.5, energy: 0.65, danceability: 0.75, acousticness: 0.15, instrumentalness: 0.01, speechiness: 0.3, tempo: 115 }],
+  ['reggaeton', { valence: 0.7, energy: 0.75, danceability: 0.8, acousticness: 0.15, instrumentalness: 0.01, speechiness: 0.12, tempo: 95 }],
+  ['latin', { valence: 0.7, energy: 0.7, danceability: 0.75, acousticness: 0.2, instrumentalness: 0.01, speechiness: 0.08, tempo: 110 }],
+  ['country', { valence: 0.6, energy: 0.6, danceability: 0.55, acousticness: 0.3, instrumentalness: 0.01, speechiness: 0.04, tempo: 120 }],
+  ['house', { valence: 0.55, energy: 0.8, danceability: 0.75, acousticness: 0.05, instrumentalness: 0.5, speechiness: 0.06, tempo: 124 }],
+  ['techno', { valence: 0.3, energy: 0.85, danceability: 0.7, acousticness: 0.03, instrumentalness: 0.8, speechiness: 0.06, tempo: 130 }],
+  ['edm', { valence: 0.5, energy: 0.85, danceability: 0.65, acousticness: 0.05, instrumentalness: 0.2, speechiness: 0.07, tempo: 128 }],
+  ['electronic', { valence: 0.45, energy: 0.7, danceability: 0.65, acousticness: 0.1, instrumentalness: 0.4, speechiness: 0.06, tempo: 122 }],
+  ['k-pop', { valence: 0.65, energy: 0.8, danceability: 0.7, acousticness: 0.1, instrumentalness: 0.01, speechiness: 0.08, tempo: 120 }],
+  ['dance', { valence: 0.65, energy: 0.75, danceability: 0.75, acousticness: 0.1, instrumentalness: 0.05, speechiness: 0.06, tempo: 120 }],
+  ['pop', { valence: 0.55, energy: 0.65, danceability: 0.65, acousticness: 0.2, instrumentalness: 0.01, speechiness: 0.06, tempo: 118 }],
+];
+
+// Used when an artist has no genres at all
+const NEUTRAL_PROFILE: GenreProfile = {
+  valence: 0.5, energy: 0.55, danceability: 0.55, acousticness: 0.3, instrumentalness: 0.05, speechiness: 0.06, tempo: 118,
+};
+
+function profileForGenres(genres: string[]): GenreProfile {
+  const matches = genres
+    .map(g => GENRE_PROFILES.find(([keyword]) => g.toLowerCase().includes(keyword))?.[1])
+    .filter((p): p is GenreProfile => !!p);
+  if (matches.length === 0) return NEUTRAL_PROFILE;
+
+  const keys = Object.keys(NEUTRAL_PROFILE) as (keyof GenreProfile)[];
+  return Object.fromEntries(
+    keys.map(k => [k, matches.reduce((s, p) => s + p[k], 0) / matches.length])
+  ) as GenreProfile;
+}
+
+// fetchArtists: optional lookup for artists not already known (e.g. /artists?ids=)
+export function createGenreEstimator(
+  knownArtists: SpotifyArtist[],
+  fetchArtists?: (ids: string[]) => Promise<SpotifyArtist[]>
+): AudioFeatureProvider {
+  return {
+    name: 'genre-estimator',
+    async getFeatures(tracks) {
+      const byId = new Map(knownArtists.map(a => [a.id, a]));
+      // Imported history only carries artist names
+      const byName = new Map(knownArtists.map(a => [a.name.toLowerCase(), a]));
+
+      const unknownIds = [...new Set(tracks.flatMap(t => t.artists.map(a => a.id)))]
+        .filter(id => !byId.has(id) && !id.startsWith('export:'));
+      if (fetchArtists && unknownIds.length > 0) {
+        try {
+          (await fetchArtists(unknownIds)).forEach(a => byId.set(a.id, a));
+        } catch {
+          // Estimate from whatever genres we already have
+        }
+      }
+
+      const estimates = new Map<string, ResolvedAudioFeatures>();
+      tracks.forEach(track => {
+        const genres = track.artists.flatMap(a =>
+          (byId.get(a.id) ?? byName.get(a.name.toLowerCase()))?.genres ?? []
+        );
+        estimates.set(track.id, {
+          id: track.id,
+          ...profileForGenres(genres),
+          key: 0,
+          loudness: -8,
+          mode: 1,
+          liveness: 0.15,
+          duration_ms: track.duration_ms,
+          time_signature: 4,
+          confidence: 'estimated',
+        });
+      });
+      return estimates;
+    },
+  };
+}
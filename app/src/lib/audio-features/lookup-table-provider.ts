@@ -0,0 +1,113 @@
+/**
+ * lookup-table-provider.ts
+ *
+ * Serves audio features from a user-supplied table — e.g. one of the public
+ * Spotify track datasets — as JSON (array of rows, or an object keyed by track
+ * id) or CSV with a header row. Rows need an `id` or `track_id` column.
+ */
+
+import type { SpotifyAudioFeatures, ResolvedAudioFeatures } from '@/types/spotify-analysis';
+import type { AudioFeatureProvider } from '@/lib/audio-features/provider';
+
+export type FeatureTable = Map<string, SpotifyAudioFeatures>;
+
+const NUMERIC_FIELDS = [
+  'danceability', 'energy', 'key', 'loudness', 'mode', 'speechiness', 'acousticness',
+  'instrumentalness', 'liveness', 'valence', 'tempo', 'duration_ms', 'time_signature',
+] as const;
+
+// Neutral values for columns a table doesn't carry
+const DEFAULTS: Omit<SpotifyAudioFeatures, 'id'> = {
+  danceability: 0.5, energy: 0.5, key: 0, loudness: -8, mode: 1, speechiness: 0.05,
+  acousticness: 0.3, instrumentalness: 0, liveness: 0.15, valence: 0.5, tempo: 120,
+  duration_ms: 0, time_signature: 4,
+};
+
+function toFeatures(row: Record<string, unknown>, fallbackId?: string): SpotifyAudioFeatures | null {
+  const id = String(row.id ?? row.track_id ?? fallbackId ?? '').trim();
+  if (!id) return null;
+  const features: SpotifyAudioFeatures = { id, ...DEFAULTS };
+  NUMERIC_FIELDS.forEach(field => {
+    const value = Number(row[field]);
+    if (row[field] !== undefined && row[field] !== '' && Number.isFinite(value)) features[field] = value;
+  });
+  return features;
+}
+
+// Minimal RFC 4180 line splitter: handles quoted fields and escaped quotes
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map(c => c.trim());
+}
+
+export function parseFeatureTable(text: string, format: 'json' | 'csv'): FeatureTable {
+  const table: FeatureTable = new Map();
+  const add = (f: SpotifyAudioFeatures | null) => { if (f) table.set(f.id, f); };
+
+  if (format === 'json') {
+    const parsed: unknown = JSON.parse(text);
+    if (Array.isArray(parsed)) {
+      parsed.forEach(row => { if (row && typeof row === 'object') add(toFeatures(row as Record<string, unknown>)); });
+    } else if (parsed && typeof parsed === 'object') {
+      Object.entries(parsed as Record<string, unknown>).forEach(([id, row]) => {
+        if (row && typeof row === 'object') add(toFeatures(row as Record<string, unknown>, id));
+      });
+    } else {
+      throw new Error('Feature table must be a JSON array or object');
+    }
+    return table;
+  }
+
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '');
+  if (lines.length === 0) return table;
+  const header = splitCsvLine(lines[0]);
+  if (!header.includes('id') && !header.includes('track_id')) {
+    throw new Error('Feature table CSV needs an "id" or "track_id" column');
+  }
+  lines.slice(1).forEach(line => {
+    const cells = splitCsvLine(line);
+    add(toFeatures(Object.fromEntries(header.map((h, i) => [h, cells[i]]))));
+  });
+  return table;
+}
+
+export async function readFeatureTableFile(file: File): Promise<FeatureTable> {
+  const format = /\.csv$/i.test(file.name) ? 'csv' : 'json';
+  try {
+    return parseFeatureTable(await file.text(), format);
+  } catch (err) {
+    throw new Error(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+export function createLookupTableProvider(table: FeatureTable): AudioFeatureProvider {
+  return {
+    name: 'lookup-table',
+    async getFeatures(tracks) {
+      const found = new Map<string, ResolvedAudioFeatures>();
+      tracks.forEach(t => {
+        const f = table.get(t.id);
+        if (f) found.set(t.id, { ...f, confidence: 'lookup' });
+      });
+      return found;
+    },
+  };
+}
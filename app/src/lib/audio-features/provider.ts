@@ -0,0 +1,64 @@
+/**
+ * provider.ts
+ *
+ * Audio features are resolved through a chain of providers: the IndexedDB
+ * cache, Spotify's /audio-features endpoint, any local lookup table, then a
+ * genre-based estimate. Each provider only sees the tracks still missing.
+ */
+
+import type {
+  SpotifyTrack,
+  ResolvedAudioFeatures,
+  FeatureConfidence,
+} from '@/types/spotify-analysis';
+
+export interface AudioFeatureProvider {
+  name: string;
+  getFeatures(tracks: SpotifyTrack[]): Promise<Map<string, ResolvedAudioFeatures>>;
+}
+
+// Above this share of estimated features the narrative hedges its claims
+const ESTIMATED_THRESHOLD = 0.3;
+
+export async function resolveAudioFeatures(
+  tracks: SpotifyTrack[],
+  providers: AudioFeatureProvider[]
+): Promise<Map<string, ResolvedAudioFeatures>> {
+  const resolved = new Map<string, ResolvedAudioFeatures>();
+  const unique = Array.from(new Map(tracks.map(t => [t.id, t])).values());
+
+  for (const provider of providers) {
+    const missing = unique.filter(t => !resolved.has(t.id));
+    if (missing.length === 0) break;
+    try {
+      const features = await provider.getFeatures(missing);
+      features.forEach((f, id) => resolved.set(id, f));
+    } catch {
+      // e.g. /audio-features returns 403 for newer Spotify apps — fall through.
+      // The tracks it missed show up as estimates in the feature coverage.
+    }
+  }
+  return resolved;
+}
+
+export function summarizeFeatureCoverage(
+  trackIds: string[],
+  features: Map<string, ResolvedAudioFeatures>
+): Record<FeatureConfidence, number> {
+  const counts: Record<FeatureConfidence, number> = { measured: 0, lookup: 0, estimated: 0 };
+  const unique = [...new Set(trackIds)];
+  unique.forEach(id => {
+    const f = features.get(id);
+    if (f) counts[f.confidence]++;
+  });
+  const total = unique.length || 1;
+  return {
+    measured: counts.measured / total,
+    lookup: counts.lookup / total,
+    estimated: counts.estimated / total,
+  };
+}
+
+export function hasEstimatedFeatures(coverage: Record<FeatureConfidence, number>): boolean {
+  return coverage.estimated > ESTIMATED_THRESHOLD;
+}
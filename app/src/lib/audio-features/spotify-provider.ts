@@ -0,0 +1,24 @@
+/**
+ * spotify-provider.ts
+ *
+ * Primary provider: Spotify's own /audio-features endpoint. Apps created after
+ * the 2024 API changes get 403s here, so the chain falls through to the others.
+ */
+
+import type { SpotifyAudioFeatures, ResolvedAudioFeatures } from '@/types/spotify-analysis';
+import type { AudioFeatureProvider } from '@/lib/audio-features/provider';
+
+// Anything that can batch-fetch /audio-features — SpotifyService in practice
+interface AudioFeatureSource {
+  getAudioFeatures(trackIds: string[]): Promise<SpotifyAudioFeatures[]>;
+}
+
+export function createSpotifyFeatureProvider(source: AudioFeatureSource): AudioFeatureProvider {
+  return {
+    name: 'spotify',
+    async getFeatures(tracks) {
+      const features = await source.getAudioFeatures(tracks.map(t => t.id));
+      return new Map(features.map(f => [f.id, { ...f, confidence: 'measured' } as ResolvedAudioFeatures]));
+    },
+  };
+}
@@ -4,14 +4,21 @@ import type {
   ChapterType, 
   DocumentaryScript, 
   DataPoint,
-  BrutalSummary 
+  BrutalSummary,
+  ObsessionEvent,
+  PhaseTransition,
+  ReelContent,
+  ReelScene,
+  ToneMode,
 } from '@/types/spotify-analysis';
 import { generateEmotionalConfrontation } from '@/lib/analytics/emotional-profile';
-import { generateIdentityConfrontation, calculateIdentityDrift } from '@/lib/analytics/identity-profile';
+import { generateIdentityConfrontation, calculateIdentityDrift, selectDriftPeriods } from '@/lib/analytics/identity-profile';
+import { hasEstimatedFeatures } from '@/lib/audio-features/provider';
 
 // Generate data points for a chapter
 function generateDataPoints(profile: ListeningProfile, type: ChapterType): DataPoint[] {
   const points: DataPoint[] = [];
+  const estimated = hasEstimatedFeatures(profile.featureCoverage);
   
   switch (type) {
     case 'identity':
@@ -33,6 +40,15 @@ function generateDataPoints(profile: ListeningProfile, type: ChapterType): DataP
           subtext: 'Unique artists in your rotation'
         }
       );
+      if (profile.identity.claimGap) {
+        const gap = profile.identity.claimGap.score;
+        points.push({
+          label: 'Claim Gap',
+          value: `${(gap * 100).toFixed(0)}%`,
+          subtext: gap > 0.5 ? 'Who you say vs. what you play' : 'You know yourself',
+          trend: gap > 0.5 ? 'up' : 'down'
+        });
+      }
       break;
       
     case 'emotional':
@@ -40,13 +56,13 @@ function generateDataPoints(profile: ListeningProfile, type: ChapterType): DataP
         {
           label: 'Emotional Volatility',
           value: profile.emotional.valenceVolatility.toFixed(2),
-          subtext: profile.emotional.valenceVolatility > 0.25 ? 'High variance' : 'Steady state',
+          subtext: estimated ? 'Estimated from genre' : profile.emotional.valenceVolatility > 0.25 ? 'High variance' : 'Steady state',
           trend: profile.emotional.valenceVolatility > 0.3 ? 'up' : 'neutral'
         },
         {
           label: 'Average Valence',
           value: `${(profile.emotional.averageValence * 100).toFixed(0)}%`,
-          subtext: 'Positivity rating'
+          subtext: estimated ? 'Estimated from genre' : 'Positivity rating'
         },
         {
           label: 'Coping Signals',
@@ -68,7 +84,7 @@ function generateDataPoints(profile: ListeningProfile, type: ChapterType): DataP
         {
           label: 'Night Valence',
           value: `${(profile.behavioral.circadianPatterns.nightValence * 100).toFixed(0)}%`,
-          subtext: 'Late-night mood'
+          subtext: estimated ? 'Estimated from genre' : 'Late-night mood'
         },
         {
           label: 'Late Loops',
@@ -79,7 +95,7 @@ function generateDataPoints(profile: ListeningProfile, type: ChapterType): DataP
       break;
       
     case 'phases':
-      const drift = calculateIdentityDrift(profile.temporal.quarterlyBreakdown);
+      const drift = calculateIdentityDrift(selectDriftPeriods(profile.temporal));
       points.push(
         {
           label: 'Phase Shifts',
@@ -167,7 +183,7 @@ function generateChapterNarrative(profile: ListeningProfile, type: ChapterType):
     }
     
     case 'phases': {
-      const drift = calculateIdentityDrift(profile.temporal.quarterlyBreakdown);
+      const drift = calculateIdentityDrift(selectDriftPeriods(profile.temporal));
       
       let narrative = '';
       let confrontation = '';
@@ -331,47 +347,209 @@ export function generateDocumentaryScript(
   };
 }
 
-// Generate reel script for viral sharing
-export function generateReelScript(profile: ListeningProfile): {
-  hook: string;
-  body: string;
-  cta: string;
-  hashtags: string[];
-} {
-  const { mainstreamPercentage, hipsterScore } = profile.identity;
-  const { valenceVolatility } = profile.emotional;
+// Voice-over pace for timing scenes; a touch slower than conversation
+const REEL_WORDS_PER_SECOND = 2.5;
+const MIN_SCENE_SECONDS = 2;
+
+type ReelHook = 'mainstream' | 'volatile' | 'nocturnal' | 'hipster' | 'default';
+
+interface ReelFacts {
+  mainstream: string;
+  valence: string;
+  volatility: string;
+  nightShare: string;
+  topGenre: string;
+  loop: ObsessionEvent | null;
+  // How long the loop lasted, spoken: merged bursts can run for days
+  loopSpan: string;
+  shift: PhaseTransition | null;
+  archetype: string;
+}
+
+const REEL_HOOKS: Record<ToneMode, Record<ReelHook, string>> = {
+  brutal: {
+    mainstream: 'POV: You say you have diverse music taste but your Spotify data disagrees',
+    volatile: 'My Spotify data just exposed my mental health journey',
+    nocturnal: 'My 2am Spotify history is a cry for help',
+    hipster: "My Spotify data called me a hipster and I'm not mad about it",
+    default: 'I thought I knew my music taste until I saw these stats',
+  },
+  poetic: {
+    mainstream: 'I thought my taste was a secret. It was a chorus.',
+    volatile: 'My playlist kept a diary I never meant to write',
+    nocturnal: 'What I listen to at 2am, when nobody is watching',
+    hipster: "I've been living at the edge of the map, and my music shows it",
+    default: 'This is what a year sounds like from the inside',
+  },
+  analytical: {
+    mainstream: 'I ran my Spotify data through a documentary engine. Here is the dataset.',
+    volatile: 'My listening data has a volatility problem. Here are the numbers.',
+    nocturnal: 'Charting my listening by hour of day produced one uncomfortable spike',
+    hipster: 'Quantifying exactly how obscure my music taste is',
+    default: 'A year of listening, reduced to five numbers',
+  },
+  motivational: {
+    mainstream: 'My taste is more common than I thought, and that is okay',
+    volatile: 'My playlist carried me through a hard year. The data proves it.',
+    nocturnal: 'The songs that got me through the late nights',
+    hipster: 'Proof that it pays to go looking for new sounds',
+    default: 'My year in music, and what it taught me about myself',
+  },
+};
+
+const REEL_LINES: Record<ToneMode, {
+  identity: (f: ReelFacts) => string;
+  emotional: (f: ReelFacts) => string;
+  nocturnal: (f: ReelFacts) => string;
+  phases: (f: ReelFacts) => string;
+  verdict: (f: ReelFacts) => string;
+}> = {
+  brutal: {
+    identity: f => `${f.mainstream} mainstream. Mostly ${f.topGenre}. So much for eclectic.`,
+    emotional: f => `Average positivity: ${f.valence}. Volatility: ${f.volatility}. I was processing at volume.`,
+    nocturnal: f => f.loop
+      ? `I played "${f.loop.trackName}" ${f.loop.playCount} times in ${f.loopSpan}. That's not a song. That's a ritual.`
+      : `${f.nightShare} of my listening happened after midnight. The night knows.`,
+    phases: f => f.shift
+      ? `Then in ${f.shift.quarter} I went from ${f.shift.topGenreBefore} to ${f.shift.topGenreAfter}. Something happened.`
+      : 'My taste did not move all year. Not once.',
+    verdict: f => `The verdict: ${f.archetype}. The algorithm knows me better than I know myself.`,
+  },
+  poetic: {
+    identity: f => `Most days I lived inside ${f.topGenre}, ${f.mainstream} of it borrowed from everyone else.`,
+    emotional: f => `My music sat at ${f.valence} brightness, swaying ${f.volatility} either way. Weather, not climate.`,
+    nocturnal: f => f.loop
+      ? `"${f.loop.trackName}", ${f.loop.playCount} times in ${f.loopSpan}. Some songs are rooms you stay in.`
+      : `${f.nightShare} of it played after midnight, when the house was quiet.`,
+    phases: f => f.shift
+      ? `In ${f.shift.quarter}, ${f.shift.topGenreBefore} gave way to ${f.shift.topGenreAfter}. The story changed key.`
+      : 'All year the same colours. Maybe that is its own kind of devotion.',
+    verdict: f => `If the year had a name, it would be ${f.archetype}.`,
+  },
+  analytical: {
+    identity: f => `Mainstream exposure: ${f.mainstream}. Dominant genre: ${f.topGenre}.`,
+    emotional: f => `Mean valence ${f.valence}, volatility ${f.volatility}. High variance, not low mood.`,
+    nocturnal: f => f.loop
+      ? `Peak repeat: "${f.loop.trackName}", ${f.loop.playCount} plays across ${f.loopSpan}.`
+      : `Night share of listening: ${f.nightShare}.`,
+    phases: f => f.shift
+      ? `Phase shift detected in ${f.shift.quarter}: ${f.shift.topGenreBefore} to ${f.shift.topGenreAfter}.`
+      : 'No phase shifts detected. Genre entropy held flat all year.',
+    verdict: f => `Classification: ${f.archetype}.`,
+  },
+  motivational: {
+    identity: f => `I leaned on ${f.topGenre}. ${f.mainstream} mainstream, and every play was mine.`,
+    emotional: f => `My music averaged ${f.valence} positivity with ${f.volatility} volatility. I felt it all and kept going.`,
+    nocturnal: f => f.loop
+      ? `I needed "${f.loop.trackName}" ${f.loop.playCount} times in ${f.loopSpan}. It did its job.`
+      : `${f.nightShare} of my listening happened after midnight. Those hours counted too.`,
+    phases: f => f.shift
+      ? `In ${f.shift.quarter} I moved from ${f.shift.topGenreBefore} to ${f.shift.topGenreAfter}. That is what growth sounds like.`
+      : 'I stayed steady all year. Consistency is a strength.',
+    verdict: f => `My archetype: ${f.archetype}. Still here, still listening.`,
+  },
+};
+
+const REEL_CTA: Record<ToneMode, string> = {
+  brutal: 'Link in bio to generate your own brutally honest music documentary',
+  poetic: 'Link in bio if you want to hear your own year',
+  analytical: 'Link in bio to run the numbers on your own listening',
+  motivational: 'Link in bio to see the story your music tells about you',
+};
+
+const REEL_VISUALS = {
+  hook: 'Hero — the minutes counter ticking up',
+  identity: 'Chapter 1 — genre distribution bars rising',
+  emotional: 'Chapter 2 — the emotional wave drawing across',
+  nocturnal: 'Chapter 3 — looped-track cards',
+  phases: 'Chapter 4 — identity drift bars',
+  verdict: 'Final chapter — archetype badge',
+  cta: 'Summary — stats grid, then the share card',
+};
+
+function selectReelHook(profile: ListeningProfile): ReelHook {
+  if (profile.identity.mainstreamPercentage > 0.6) return 'mainstream';
+  if (profile.emotional.valenceVolatility > 0.35) return 'volatile';
+  if (profile.behavioral.circadianPatterns.nightRatio > 0.25) return 'nocturnal';
+  if (profile.identity.hipsterScore > 0.7) return 'hipster';
+  return 'default';
+}
+
+// Like the looped-track cards, anything under an hour reads as one hour
+function spokenSpan(start: string, end: string): string {
+  const hours = Math.max(Math.round((Date.parse(end) - Date.parse(start)) / 3_600_000), 1);
+  if (hours < 24) return hours === 1 ? 'one hour' : `${hours} hours`;
+  const days = Math.round(hours / 24);
+  return days === 1 ? 'one day' : `${days} days`;
+}
+
+function sceneSeconds(line: string): number {
+  const words = line.split(/\s+/).filter(Boolean).length;
+  return Math.max(MIN_SCENE_SECONDS, Math.round((words / REEL_WORDS_PER_SECOND) * 10) / 10);
+}
+
+// Generate a timed, scene-by-scene reel script in the given tone
+export function generateReelScript(profile: ListeningProfile, tone: ToneMode, archetype: string): ReelContent {
+  const { mainstreamPercentage, hipsterScore, actualTopGenres } = profile.identity;
+  const { averageValence, valenceVolatility } = profile.emotional;
   const { nightRatio } = profile.behavioral.circadianPatterns;
-  
-  // Select hook based on profile
-  let hook = '';
-  
-  if (mainstreamPercentage > 0.6) {
-    hook = "POV: You say you have diverse music taste but your Spotify data disagrees";
-  } else if (valenceVolatility > 0.35) {
-    hook = "My Spotify data just exposed my mental health journey";
-  } else if (nightRatio > 0.25) {
-    hook = "My 2am Spotify history is a cry for help";
-  } else if (hipsterScore > 0.7) {
-    hook = "My Spotify data called me a hipster and I'm not mad about it";
-  } else {
-    hook = "I thought I knew my music taste until I saw these stats";
-  }
-  
-  const body = `According to my Spotify Documentary: I'm ${(mainstreamPercentage * 100).toFixed(0)}% mainstream, my emotional volatility is ${valenceVolatility.toFixed(2)}, and ${(nightRatio * 100).toFixed(0)}% of my listening happens after midnight. The algorithm knows me better than I know myself.`;
-  
-  const cta = "Link in bio to generate your own brutally honest music documentary";
-  
-  const hashtags = [
-    '#SpotifyWrapped',
-    '#MusicDocumentary',
-    '#SpotifyData',
-    '#MusicTaste',
-    '#BrutallyHonest',
-    '#Playlist',
-    '#MusicStats',
-    '#Viral'
+  // Artist bursts spread over many tracks, so only a single track can be "looped"
+  const loop = profile.behavioral.obsessionLoops.find(e => e.kind === 'track') ?? null;
+  const drift = calculateIdentityDrift(selectDriftPeriods(profile.temporal));
+
+  const facts: ReelFacts = {
+    mainstream: `${(mainstreamPercentage * 100).toFixed(0)}%`,
+    valence: averageValence.toFixed(2),
+    volatility: valenceVolatility.toFixed(2),
+    nightShare: `${(nightRatio * 100).toFixed(0)}%`,
+    topGenre: actualTopGenres[0]?.name ?? 'everything',
+    loop,
+    loopSpan: loop ? spokenSpan(loop.timeRange.start, loop.timeRange.end) : '',
+    shift: drift.shifts[0] ?? null,
+    archetype,
+  };
+  const lines = REEL_LINES[tone];
+  const beats: { voiceOver: string; visual: string }[] = [
+    { voiceOver: REEL_HOOKS[tone][selectReelHook(profile)], visual: REEL_VISUALS.hook },
+    { voiceOver: lines.identity(facts), visual: REEL_VISUALS.identity },
+    { voiceOver: lines.emotional(facts), visual: REEL_VISUALS.emotional },
+    { voiceOver: lines.nocturnal(facts), visual: REEL_VISUALS.nocturnal },
+    { voiceOver: lines.phases(facts), visual: REEL_VISUALS.phases },
+    { voiceOver: lines.verdict(facts), visual: REEL_VISUALS.verdict },
+    { voiceOver: REEL_CTA[tone], visual: REEL_VISUALS.cta },
+  ];
+
+  let clock = 0;
+  const scenes: ReelScene[] = beats.map(beat => {
+    const start = clock;
+    clock = Math.round((clock + sceneSeconds(beat.voiceOver)) * 10) / 10;
+    return { start, end: clock, ...beat };
+  });
+
+  const hooks = [
+    mainstreamPercentage > 0.6,
+    valenceVolatility > 0.35,
+    nightRatio > 0.25,
+    hipsterScore > 0.7,
+    loop !== null,
   ];
-  
-  return { hook, body, cta, hashtags };
-    }
 
+  return {
+    tone,
+    scenes,
+    script: scenes.map(s => s.voiceOver).join(' '),
+    visualSuggestions: scenes.map(s => s.visual),
+    audioSuggestion: loop
+      ? `"${loop.trackName}" by ${loop.artistName} — your most-looped track`
+      : `Anything by ${profile.identity.topArtists[0]?.name ?? 'your top artist'}`,
+    hashtags: [
+      '#SpotifyWrapped',
+      '#MusicDocumentary',
+      '#SpotifyData',
+      '#MusicTaste',
+      tone === 'brutal' ? '#BrutallyHonest' : `#${tone[0].toUpperCase()}${tone.slice(1)}Mode`,
+      '#MusicStats',
+    ],
+    estimatedEngagement: hooks.filter(Boolean).length / hooks.length,
+  };
+}
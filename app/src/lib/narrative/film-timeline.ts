@@ -0,0 +1,57 @@
+/**
+ * film-timeline.ts
+ *
+ * Turns a DocumentaryScript into the timeline film mode plays: one segment
+ * per on-page section, in page order. Chapters run for the durations the
+ * engine wrote into the script; the sections around them get fixed beats.
+ */
+
+import type { DocumentaryScript } from '@/types/spotify-analysis';
+
+export interface FilmSegment {
+  // DOM id of the section to scroll through
+  sectionId: string;
+  label: string;
+  // Seconds from the start of the film
+  start: number;
+  duration: number;
+}
+
+const HERO_SECONDS = 8;
+const SUMMARY_SECONDS = 15;
+const VERDICT_SECONDS = 15;
+// The demo has no script to take chapter durations from
+const DEMO_CHAPTER_SECONDS = 20;
+const CHAPTER_LABELS = ['CHAPTER ONE', 'CHAPTER TWO', 'CHAPTER THREE', 'CHAPTER FOUR'];
+
+export function buildFilmTimeline(script: DocumentaryScript | null): FilmSegment[] {
+  const beats: Omit<FilmSegment, 'start'>[] = [
+    { sectionId: 'hero', label: 'PROLOGUE', duration: HERO_SECONDS },
+    ...CHAPTER_LABELS.map((label, i) => ({
+      sectionId: `ch${i + 1}`,
+      label,
+      duration: script?.chapters[i]?.duration ?? DEMO_CHAPTER_SECONDS,
+    })),
+    ...(script ? [{ sectionId: 'summary', label: 'SUMMARY', duration: SUMMARY_SECONDS }] : []),
+    { sectionId: 'ch5', label: 'FINAL CHAPTER', duration: VERDICT_SECONDS },
+  ];
+
+  let clock = 0;
+  return beats.map(beat => {
+    const segment = { ...beat, start: clock };
+    clock += beat.duration;
+    return segment;
+  });
+}
+
+export function filmDuration(timeline: FilmSegment[]): number {
+  const last = timeline[timeline.length - 1];
+  return last ? last.start + last.duration : 0;
+}
+
+export function segmentAt(timeline: FilmSegment[], time: number): number {
+  for (let i = timeline.length - 1; i >= 0; i--) {
+    if (time >= timeline[i].start) return i;
+  }
+  return 0;
+}
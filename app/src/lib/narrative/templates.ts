@@ -0,0 +1,421 @@
+/**
+ * templates.ts
+ *
+ * Builds each tone's chapter narratives and verdicts from a real
+ * ListeningProfile. `toneData` holds the demo copy; this is what real users get.
+ */
+
+import type { ListeningProfile } from '@/types/spotify-analysis';
+import type { ToneContent, ToneMode } from '@/lib/narrative/toneData';
+import { calculateIdentityDrift, selectDriftPeriods } from '@/lib/analytics/identity-profile';
+import { formatHour } from '@/lib/analytics/nocturnal-analysis';
+import { hasEstimatedFeatures } from '@/lib/audio-features/provider';
+
+// ─── Facts ────────────────────────────────────────────────────────────────────
+// Everything the templates are allowed to say, pre-computed. Names are
+// pre-escaped for the narrative paragraphs, which render as HTML; verdicts
+// and final bodies render as text, so they read names from `plain`.
+
+export interface NarrativeFacts {
+  // What the questionnaire said against the data; null when it wasn't answered
+  claims: { claimed: string; gap: number; unmatched: string[] } | null;
+  topGenres: string[];
+  topArtist: string | null;
+  plain: { topGenres: string[] };
+  mainstreamPct: number;
+  hipsterScore: number;
+  artistDiversity: number;
+  avgValence: number;
+  avgEnergy: number;
+  volatility: number;
+  bpmMin: number;
+  bpmMax: number;
+  nightRatio: number;
+  nightValence: number;
+  peakHour: string;
+  topLoop: { name: string; count: number } | null;
+  sadLoopCount: number;
+  insomnia: boolean;
+  copingCount: number;
+  melancholySessions: number;
+  shiftCount: number;
+  shift: { period: string; from: string; to: string; reading: string } | null;
+  stability: number;
+  totalMinutes: number;
+  totalSongs: number;
+  // Audio features were mostly guessed from genres, not measured
+  estimated: boolean;
+  estimatedPct: number;
+}
+
+// Track, artist and genre names end up in innerHTML
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function pct(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function list(items: string[]): string {
+  if (items.length <= 1) return items[0] ?? 'nothing in particular';
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+export function extractNarrativeFacts(
+  profile: ListeningProfile,
+  totals: { totalMinutes: number; totalSongs: number }
+): NarrativeFacts {
+  const { identity, emotional, behavioral, temporal } = profile;
+  const nocturnal = behavioral.circadianPatterns;
+  const drift = calculateIdentityDrift(selectDriftPeriods(temporal));
+  const firstShift = drift.shifts[0];
+  const topLoop = nocturnal.loops[0];
+  const { claimGap } = identity;
+  const claimed = [...identity.claimedGenres, ...identity.claimedArtists].slice(0, 3);
+
+  return {
+    claims: claimGap ? {
+      claimed: list((claimed.length > 0 ? claimed : identity.claimedMoods).map(escapeHtml)),
+      gap: claimGap.score,
+      unmatched: [...claimGap.unmatchedGenres, ...claimGap.unmatchedArtists].slice(0, 2).map(escapeHtml),
+    } : null,
+    topGenres: identity.actualTopGenres.slice(0, 3).map(g => escapeHtml(g.name)),
+    topArtist: identity.topArtists[0] ? escapeHtml(identity.topArtists[0].name) : null,
+    plain: { topGenres: identity.actualTopGenres.slice(0, 3).map(g => g.name) },
+    mainstreamPct: identity.mainstreamPercentage,
+    hipsterScore: identity.hipsterScore,
+    artistDiversity: identity.artistDiversity,
+    avgValence: emotional.averageValence,
+    avgEnergy: emotional.averageEnergy,
+    volatility: emotional.valenceVolatility,
+    bpmMin: Math.round(behavioral.comfortZoneMetrics.bpmRange.min),
+    bpmMax: Math.round(behavioral.comfortZoneMetrics.bpmRange.max),
+    nightRatio: nocturnal.nightRatio,
+    nightValence: nocturnal.nightValence,
+    peakHour: formatHour(temporal.peakListeningHour),
+    topLoop: topLoop ? { name: escapeHtml(topLoop.trackName), count: topLoop.count } : null,
+    sadLoopCount: nocturnal.sadnessLoops.length,
+    insomnia: nocturnal.insomniaIndicators,
+    copingCount: emotional.copingIndicators.length,
+    melancholySessions: emotional.melancholyClusters.length,
+    shiftCount: drift.shifts.length,
+    shift: firstShift ? {
+      period: escapeHtml(firstShift.quarter),
+      from: escapeHtml(firstShift.topGenreBefore),
+      to: escapeHtml(firstShift.topGenreAfter),
+      reading: firstShift.psychologicalReading,
+    } : null,
+    stability: drift.overallStability,
+    totalMinutes: totals.totalMinutes,
+    totalSongs: totals.totalSongs,
+    estimated: hasEstimatedFeatures(profile.featureCoverage),
+    estimatedPct: profile.featureCoverage.estimated,
+  };
+}
+
+// ─── Tone templates ───────────────────────────────────────────────────────────
+
+type ChapterTemplate = (f: NarrativeFacts) => { narrative: string[]; verdict: string };
+
+interface ToneTemplates {
+  chapter1: ChapterTemplate;
+  chapter2: ChapterTemplate;
+  chapter3: ChapterTemplate;
+  chapter4: ChapterTemplate;
+  final: (f: NarrativeFacts) => { headline: string; body: string };
+}
+
+const brutal: ToneTemplates = {
+  chapter1: f => ({
+    narrative: [
+      f.claims
+        ? `You describe yourself as <span class="hl">${f.claims.claimed}</span>. ${f.claims.gap <= 0.25
+          ? `Annoyingly, the data agrees — a ${pct(f.claims.gap)} claim gap.`
+          : `The data puts the claim gap at ${pct(f.claims.gap)}.${f.claims.unmatched.length > 0
+            ? ` ${list(f.claims.unmatched)} never made your top rotation.`
+            : ' The sounds match. The mood you claimed does not.'}`}`
+        : f.artistDiversity > 0.5
+          ? 'You describe your taste as "eclectic." For once, the data mostly agrees.'
+          : 'You describe your taste as "eclectic." Your data disagrees.',
+      `Your listening clusters around <span class="hl">${list(f.topGenres)}</span>. ${f.mainstreamPct > 0.5
+        ? `${pct(f.mainstreamPct)} of it sits squarely in the mainstream. This is not a hidden gem collection. This is the radio with better branding.`
+        : `Only ${pct(f.mainstreamPct)} of it is mainstream. You went looking for the edges — and stayed there.`}`,
+      f.topArtist
+        ? `${f.topArtist} sits at the top of the pile. Everything else is orbiting.`
+        : 'No single artist owns you. Yet.',
+    ],
+    verdict: f.artistDiversity < 0.3
+      ? `You claim range. Yet ${pct(1 - f.artistDiversity)} of your top tracks come from artists you had already played.`
+      : `You sample widely — but ${f.plain.topGenres[0] ?? 'one sound'} keeps pulling you back.`,
+  }),
+  chapter2: f => ({
+    narrative: [
+      'Your audio features tell a story you did not write intentionally — but wrote clearly.',
+      `Average valence: <span class="hl-red">${f.avgValence.toFixed(2)} out of 1.0.</span> ${f.avgValence < 0.4
+        ? 'Anything below 0.4 counts as "negative or emotionally heavy." You lived below that line.'
+        : f.avgValence > 0.6
+          ? 'That is upbeat. Relentlessly, suspiciously upbeat.'
+          : 'Not sad, not happy. Hovering, like you were waiting for something.'}`,
+      `Average energy ${f.avgEnergy.toFixed(2)}, tempo anywhere from ${f.bpmMin} to ${f.bpmMax} BPM. ${f.volatility > 0.25
+        ? 'The swings are wide. Your mood and your queue moved together.'
+        : 'The swings are narrow. You found a setting and left it there.'}`,
+    ],
+    verdict: f.copingCount > 1
+      ? `${f.copingCount} coping patterns detected. You weren't just listening. You were self-medicating at volume.`
+      : "Your emotional range is steady. Whether that's peace or avoidance is your business.",
+  }),
+  chapter3: f => ({
+    narrative: [
+      f.nightRatio > 0.15
+        ? "You don't listen to sad music randomly. You schedule it."
+        : 'The night mostly leaves you alone.',
+      `<span class="hl">${pct(f.nightRatio)}</span> of your plays happen between midnight and 5AM, at an average valence of ${f.nightValence.toFixed(2)}. Your busiest hour: ${f.peakHour}.`,
+      f.topLoop
+        ? `The most looped late-night song: ${f.topLoop.count} plays of "${f.topLoop.name}". You know exactly why.`
+        : 'No late-night track got looped. Nothing kept you up. Or nothing you admitted to.',
+    ],
+    verdict: f.sadLoopCount > 0
+      ? `${f.sadLoopCount} low-valence song${f.sadLoopCount === 1 ? '' : 's'} on repeat after midnight. That's not a playlist. That's a ritual.`
+      : f.insomnia
+        ? "You were awake on too many nights. The music was the only one who noticed."
+        : 'You sleep. Your playlist respects that. Boring, but healthy.',
+  }),
+  chapter4: f => ({
+    narrative: f.shift
+      ? [
+          `Something happened around ${f.shift.period}.`,
+          `Your top genre went from <span class="hl">${f.shift.from}</span> to <span class="hl">${f.shift.to}</span>. ${f.shiftCount > 1 ? `And that was one of ${f.shiftCount} breaks.` : 'One clean break.'} This was not drift. This was a decision — or a reaction.`,
+          `Overall stability: ${pct(f.stability)}. The same person, rearranged.`,
+        ]
+      : [
+          'Nothing happened. Musically, at least.',
+          `Stability score: <span class="hl">${pct(f.stability)}</span>. No phase shifts, no pivots, no reinventions. ${f.topGenres[0] ?? 'The same sound'} at the start, ${f.topGenres[0] ?? 'the same sound'} at the end.`,
+        ],
+    verdict: f.shift?.reading === 'retreat_to_comfort'
+      ? "This wasn't evolution. This was coping."
+      : f.shift
+        ? "You changed. The data has the receipts."
+        : 'Consistency or a cage. You decide which.',
+  }),
+  final: f => ({
+    headline: f.copingCount > 1 ? "You weren't lost.<br>You were recalibrating." : 'You know what you like.<br>Painfully well.',
+    body: `${f.totalMinutes.toLocaleString()} minutes of music. ${f.totalSongs.toLocaleString()} tracks. One consistent thread: ${f.avgValence < 0.45
+      ? 'you use music to feel what you haven\'t yet named. That\'s not weakness. That\'s a specific kind of emotional intelligence.'
+      : 'you use music to keep yourself moving. That\'s not shallow. That\'s maintenance.'}`,
+  }),
+};
+
+const poetic: ToneTemplates = {
+  chapter1: f => ({
+    narrative: [
+      f.claims
+        ? `You named yourself ${f.claims.claimed}. ${f.claims.gap <= 0.25
+          ? 'The data answers in the same voice.'
+          : f.claims.gap >= 0.6
+            ? 'The data answers in a stranger\'s voice.'
+            : 'The data answers half in your voice, half in another.'}${f.claims.unmatched.length > 0
+          ? ` ${list(f.claims.unmatched)} stayed in the telling, not the listening.`
+          : ''}`
+        : 'You speak of your taste in broad strokes. The data answers in detail.',
+      `Your songs gather like constellations around ${list(f.topGenres)} — ${f.mainstreamPct > 0.5
+        ? 'familiar stars, the ones everyone can name.'
+        : 'faint stars, the ones you have to know where to look for.'}`,
+      f.topArtist
+        ? `And at the centre, ${f.topArtist}: the voice you returned to when the others fell quiet.`
+        : 'No single voice held the centre. You kept many company.',
+    ],
+    verdict: f.artistDiversity < 0.3
+      ? '"Your taste is not a library. It is a single song, sung in many voices."'
+      : '"You wandered widely, and every road still led somewhere familiar."',
+  }),
+  chapter2: f => ({
+    narrative: [
+      `Your year, measured in frequencies: a valence of ${f.avgValence.toFixed(2)}. ${f.avgValence < 0.4 ? 'Below the threshold where joy begins.' : 'Somewhere between shadow and light.'}`,
+      `Tempos from ${f.bpmMin} to ${f.bpmMax} BPM — ${f.volatility > 0.25 ? 'a tide that rose and fell without warning.' : 'a steady breath, in and out.'}`,
+      f.melancholySessions > 0
+        ? `${f.melancholySessions} times the music turned inward and stayed there, as if listening for something.`
+        : 'The algorithms measure it. You simply lived it.',
+    ],
+    verdict: f.copingCount > 1
+      ? '"You did not wallow. You wandered — until you found the frequency that matched your heart."'
+      : '"You kept an even light burning all year. That, too, is a kind of courage."',
+  }),
+  chapter3: f => ({
+    narrative: [
+      'The night does not ask permission. It arrives, and with it, the truth.',
+      `${pct(f.nightRatio)} of your listening belonged to the hours after midnight, where the music ran at a valence of ${f.nightValence.toFixed(2)}.`,
+      f.topLoop
+        ? `${f.topLoop.count} times, you returned to "${f.topLoop.name}". Not because you forgot it. Because you needed it to remember you.`
+        : 'No song held you captive in the dark. The night let you go.',
+    ],
+    verdict: f.sadLoopCount > 0
+      ? '"Some songs are not for listening. They are for keeping company."'
+      : '"The quiet hours asked little of you, and you gave them little in return."',
+  }),
+  chapter4: f => ({
+    narrative: f.shift
+      ? [
+          `${f.shift.period} arrived like a door swinging open.`,
+          `${f.shift.from} gave way to ${f.shift.to}. The data shows a turning — not a crack, but a new configuration. The same person, rearranged.`,
+          `Across the year, ${pct(f.stability)} of you stayed where it was.`,
+        ]
+      : [
+          'The seasons changed. Your music did not.',
+          `A stability of ${pct(f.stability)} — the same rooms, the same windows, the same light.`,
+        ],
+    verdict: f.shift
+      ? '"You were translating yourself into a new language, one song at a time."'
+      : '"You knew where home was, and you never left it."',
+  }),
+  final: f => ({
+    headline: f.shiftCount > 0 ? 'You were not broken.<br>You were becoming.' : 'You were not still.<br>You were rooted.',
+    body: `${f.totalMinutes.toLocaleString()} minutes. ${f.totalSongs.toLocaleString()} songs. Each one a step through a landscape only you could map. You used music not to escape your life, but to feel it more precisely.`,
+  }),
+};
+
+const analytical: ToneTemplates = {
+  chapter1: f => ({
+    narrative: [
+      f.claims
+        ? `Self-reported descriptors: ${f.claims.claimed}. Claim gap: ${pct(f.claims.gap)}. Unmatched claims: ${f.claims.unmatched.length > 0 ? list(f.claims.unmatched) : 'none'}.`
+        : 'Self-reported taste descriptors were not collected. Empirical analysis follows.',
+      `Dominant genre cluster: ${list(f.topGenres)}. Mainstream share: ${pct(f.mainstreamPct)}. Obscurity index: ${Math.round(f.hipsterScore * 100)}/100. Artist diversity: ${pct(f.artistDiversity)}.`,
+      f.topArtist ? `Rank-one artist: ${f.topArtist}.` : 'Rank-one artist: insufficient data.',
+    ],
+    verdict: `"${f.artistDiversity < 0.3 ? 'High' : f.artistDiversity < 0.6 ? 'Moderate' : 'Low'} thematic consistency. ${f.mainstreamPct > 0.5 ? 'Consumption aligns with population norms.' : 'Consumption diverges from population norms.'}"`,
+  }),
+  chapter2: f => ({
+    narrative: [
+      'Audio feature analysis across the available period.',
+      `Mean valence: ${f.avgValence.toFixed(2)} (SD: ${f.volatility.toFixed(2)}). Mean energy: ${f.avgEnergy.toFixed(2)}. Tempo range: ${f.bpmMin}–${f.bpmMax} BPM.`,
+      `Melancholy sessions: ${f.melancholySessions}. Coping signals: ${f.copingCount}.`,
+    ],
+    verdict: f.volatility > 0.25
+      ? '"Emotional oscillation detected. Pattern suggests active processing rather than passive consumption."'
+      : '"Low variance across affective features. Pattern consistent with stable mood regulation."',
+  }),
+  chapter3: f => ({
+    narrative: [
+      `Nocturnal share (00:00–05:00): ${pct(f.nightRatio)}. Nocturnal mean valence: ${f.nightValence.toFixed(2)}. Peak hour: ${f.peakHour}.`,
+      f.topLoop
+        ? `Most repeated nocturnal track: "${f.topLoop.name}" (${f.topLoop.count} plays). Low-valence nocturnal loops: ${f.sadLoopCount}.`
+        : 'No nocturnal repeat loops detected.',
+      `Insomnia indicators: ${f.insomnia ? 'present' : 'absent'}.`,
+    ],
+    verdict: f.sadLoopCount > 0
+      ? '"Nocturnal repeat behaviour indicates music used as an emotional regulation tool."'
+      : '"Nocturnal activity within expected parameters."',
+  }),
+  chapter4: f => ({
+    narrative: f.shift
+      ? [
+          `Phase shifts detected: ${f.shiftCount}. First transition: ${f.shift.period}.`,
+          `Top genre: ${f.shift.from} → ${f.shift.to}. Classification: ${f.shift.reading.replace(/_/g, ' ')}.`,
+          `Overall stability: ${pct(f.stability)}.`,
+        ]
+      : [
+          'Phase shifts detected: 0.',
+          `Overall stability: ${pct(f.stability)}. No significant genre transitions between periods.`,
+        ],
+    verdict: f.shift
+      ? '"Data indicates phase transition rather than static preference."'
+      : '"Preference profile stable across the observed window."',
+  }),
+  final: f => ({
+    headline: 'Pattern analysis complete.<br>Subject: Profiled.',
+    body: `Total consumption: ${f.totalMinutes.toLocaleString()} minutes. Unique tracks: ${f.totalSongs.toLocaleString()}. Mean valence: ${f.avgValence.toFixed(2)}. Coping signals: ${f.copingCount}. Phase shifts: ${f.shiftCount}. Function: ${f.copingCount > 1 ? 'regulatory' : 'recreational'}.`,
+  }),
+};
+
+const motivational: ToneTemplates = {
+  chapter1: f => ({
+    narrative: [
+      f.claims
+        ? f.claims.gap <= 0.25
+          ? `You said ${f.claims.claimed} — and you meant it. Only a ${pct(f.claims.gap)} gap between who you say you are and what you play.`
+          : `You said ${f.claims.claimed}. The data found a ${pct(f.claims.gap)} gap${f.claims.unmatched.length > 0
+            ? ` — ${list(f.claims.unmatched)} is the listener you're still growing into`
+            : ''}. That's not a miss. That's direction.`
+        : 'You built a soundtrack this year. And it tells a story of someone who knows what they need.',
+      `${list(f.topGenres)} — that's your foundation. ${f.mainstreamPct > 0.5
+        ? 'You like what connects people, and there is strength in that.'
+        : `Only ${pct(f.mainstreamPct)} mainstream. You trust your own ears. <span class="hl">That's rare.</span>`}`,
+      f.topArtist ? `${f.topArtist} showed up for you more than anyone. Loyalty is a skill.` : 'You gave everyone a fair hearing.',
+    ],
+    verdict: "You didn't collect music this year. You curated an identity — and that takes more courage than it looks.",
+  }),
+  chapter2: f => ({
+    narrative: [
+      `A valence of ${f.avgValence.toFixed(2)}. ${f.avgValence < 0.45 ? 'Some people see that as heavy. We see it as honest.' : 'You chose the light, again and again.'}`,
+      `From ${f.bpmMin} to ${f.bpmMax} BPM, you matched the music to the moment. <span class="hl">That's emotional intelligence.</span>`,
+      f.copingCount > 0
+        ? `${f.copingCount} times the data caught you using music to get through something. And you got through.`
+        : 'You kept your balance all year. Protect that.',
+    ],
+    verdict: 'You self-regulated through sound. Every oscillation was a choice. You were your own coach.',
+  }),
+  chapter3: f => ({
+    narrative: [
+      f.nightRatio > 0.15 ? 'The late-night sessions were not weakness. They were dedication.' : 'You gave the night back to sleep. Recovery is part of the work.',
+      `${pct(f.nightRatio)} of your listening happened after midnight. ${f.peakHour} was your power hour.`,
+      f.topLoop
+        ? `${f.topLoop.count} plays of "${f.topLoop.name}". You weren't stuck — <span class="hl-amber">you were processing.</span>`
+        : 'No loops, no spirals. Just forward motion.',
+    ],
+    verdict: f.sadLoopCount > 0
+      ? "The songs you looped were doing work. You trusted the process. That's rare."
+      : 'You kept your nights clear and your mornings ready. That\'s discipline.',
+  }),
+  chapter4: f => ({
+    narrative: f.shift
+      ? [
+          `${f.shift.period} changed you. And you let it.`,
+          `From ${f.shift.from} to ${f.shift.to} — that's not instability. <span class="hl">That's adaptability.</span>`,
+          'When life shifted, your music shifted with it. You didn\'t cling to what no longer fit.',
+        ]
+      : [
+          'You held your ground all year.',
+          `${pct(f.stability)} stability. You know your sound and you built on it. <span class="hl">Consistency compounds.</span>`,
+        ],
+    verdict: f.shift ? "You didn't just survive the phase shift. You used it." : 'Steady is a strategy. You ran it perfectly.',
+  }),
+  final: f => ({
+    headline: 'You showed up for yourself.<br>Every single day.',
+    body: `${f.totalMinutes.toLocaleString()} minutes. ${f.totalSongs.toLocaleString()} tracks. Every play was a choice — to feel, to process, to push through, to rest. This wasn't a passive year. And your playlist proves it.`,
+  }),
+};
+
+const TEMPLATES: Record<ToneMode, ToneTemplates> = { brutal, poetic, analytical, motivational };
+
+// Appended to the emotional chapter when its numbers are estimates
+const ESTIMATE_CAVEATS: Record<ToneMode, (f: NarrativeFacts) => string> = {
+  brutal: f => `Fine print: Spotify wouldn't measure ${pct(f.estimatedPct)} of these tracks, so their mood was inferred from genre. Treat these numbers as an educated guess, not a diagnosis.`,
+  poetic: f => `A quiet caveat: ${pct(f.estimatedPct)} of these songs were read by their genre, not their sound. The outline is true; the details are softer.`,
+  analytical: f => `Caveat: ${pct(f.estimatedPct)} of feature vectors are genre-based estimates. Confidence: low.`,
+  motivational: f => `Heads up: ${pct(f.estimatedPct)} of these readings are estimated from genre. Use them as a compass, not a scoreboard.`,
+};
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function buildToneContent(
+  profile: ListeningProfile,
+  tone: ToneMode,
+  totals: { totalMinutes: number; totalSongs: number }
+): ToneContent {
+  const facts = extractNarrativeFacts(profile, totals);
+  const t = TEMPLATES[tone];
+  const chapter2 = t.chapter2(facts);
+  if (facts.estimated) chapter2.narrative.push(ESTIMATE_CAVEATS[tone](facts));
+  return {
+    chapter1: t.chapter1(facts),
+    chapter2,
+    chapter3: t.chapter3(facts),
+    chapter4: t.chapter4(facts),
+    final: t.final(facts),
+  };
+}
@@ -8,6 +8,7 @@ export interface ToneContent {
   final: { headline: string; body: string };
 }
 
+// Demo documentary (Alex Reyes). Real profiles are written by templates.ts.
 export const toneData: Record<ToneMode, ToneContent> = {
   brutal: {
     chapter1: {
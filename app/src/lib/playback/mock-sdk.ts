@@ -0,0 +1,119 @@
+/**
+ * mock-sdk.ts
+ *
+ * A local stand-in for the Web Playback SDK, so the player logic in
+ * web-playback.ts can be exercised without Spotify, a Premium account or
+ * network access:
+ *
+ *   const mock = createMockSpotifySdk();
+ *   const player = await createWebPlaybackPlayer({
+ *     getAccessToken: async () => 'token',
+ *     loadSdk: mock.loadSdk,
+ *     startPlayback: mock.startPlayback,
+ *   });
+ *
+ * `outcome` picks how the device comes up — ready, or one of the SDK's
+ * error events — and `startPlayback` plays on the mock device like the Web
+ * API would, emitting player_state_changed.
+ */
+
+import type {
+  SpotifyPlayerState, SpotifySdk, SpotifySdkEvents, SpotifySdkPlayer, SpotifySdkPlayerOptions, SdkLoader,
+} from '@/lib/playback/sdk';
+
+export type MockSdkOutcome = 'ready' | 'initialization_error' | 'authentication_error' | 'account_error' | 'no_response';
+
+export interface MockSpotifySdk {
+  loadSdk: SdkLoader;
+  startPlayback: (deviceId: string, uri: string) => Promise<void>;
+  // Every player the SDK constructed, newest last
+  players: MockSdkPlayer[];
+}
+
+export interface MockSdkPlayer extends SpotifySdkPlayer {
+  readonly options: SpotifySdkPlayerOptions;
+  readonly deviceId: string;
+  connected: boolean;
+  emit<E extends keyof SpotifySdkEvents>(event: E, payload: SpotifySdkEvents[E]): void;
+}
+
+export function createMockSpotifySdk(outcome: MockSdkOutcome = 'ready'): MockSpotifySdk {
+  const players: MockSdkPlayer[] = [];
+
+  class MockPlayer implements MockSdkPlayer {
+    readonly options: SpotifySdkPlayerOptions;
+    readonly deviceId = `mock-device-${players.length + 1}`;
+    connected = false;
+    private state: SpotifyPlayerState | null = null;
+    private listeners = new Map<keyof SpotifySdkEvents, ((payload: never) => void)[]>();
+
+    constructor(options: SpotifySdkPlayerOptions) {
+      this.options = options;
+      players.push(this);
+    }
+
+    addListener<E extends keyof SpotifySdkEvents>(event: E, callback: (payload: SpotifySdkEvents[E]) => void): boolean {
+      this.listeners.set(event, [...(this.listeners.get(event) ?? []), callback as (payload: never) => void]);
+      return true;
+    }
+
+    emit<E extends keyof SpotifySdkEvents>(event: E, payload: SpotifySdkEvents[E]): void {
+      (this.listeners.get(event) ?? []).forEach(cb => (cb as (payload: SpotifySdkEvents[E]) => void)(payload));
+    }
+
+    async connect(): Promise<boolean> {
+      // Like the real SDK, ask for a token before coming up
+      const token = await new Promise<string>(resolve => this.options.getOAuthToken(resolve));
+      if (outcome === 'no_response') return true;
+      if (outcome !== 'ready') {
+        setTimeout(() => this.emit(outcome, { message: `Mock ${outcome.replace('_', ' ')}` }));
+        return true;
+      }
+      this.connected = token.length > 0;
+      setTimeout(() => this.emit('ready', { device_id: this.deviceId }));
+      return this.connected;
+    }
+
+    disconnect(): void {
+      this.connected = false;
+    }
+
+    async pause(): Promise<void> {
+      this.setPaused(true);
+    }
+
+    async resume(): Promise<void> {
+      this.setPaused(false);
+    }
+
+    async activateElement(): Promise<void> {}
+
+    load(uri: string): void {
+      this.state = {
+        paused: false,
+        position: 0,
+        duration: 30_000,
+        track_window: { current_track: { uri, name: uri, artists: [] } },
+      };
+      this.emit('player_state_changed', this.state);
+    }
+
+    private setPaused(paused: boolean): void {
+      if (!this.state) return;
+      this.state = { ...this.state, paused };
+      this.emit('player_state_changed', this.state);
+    }
+  }
+
+  const sdk: SpotifySdk = { Player: MockPlayer };
+
+  return {
+    loadSdk: async () => sdk,
+    startPlayback: async (deviceId, uri) => {
+      const player = players.find(p => p.deviceId === deviceId);
+      if (!(player instanceof MockPlayer) || !player.connected) throw new Error(`Device not found: ${deviceId}`);
+      player.load(uri);
+    },
+    players,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * player.ts
+ *
+ * Full-track playback behind one interface. The Web Playback SDK player
+ * (web-playback.ts) implements it for Premium accounts; everyone else gets
+ * the no-op player, whose `available: false` tells the UI to hide controls.
+ */
+
+export interface PlaybackState {
+  // Spotify URI of the current track, null when nothing is loaded
+  uri: string | null;
+  paused: boolean;
+}
+
+export interface TrackPlayer {
+  readonly available: boolean;
+  // A track URI plays that track; an artist or album URI plays its context
+  play(uri: string): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  onStateChange(listener: (state: PlaybackState) => void): () => void;
+  disconnect(): void;
+}
+
+export const IDLE_PLAYBACK: PlaybackState = { uri: null, paused: true };
+
+export function createNoopPlayer(): TrackPlayer {
+  return {
+    available: false,
+    play: async () => {},
+    pause: async () => {},
+    resume: async () => {},
+    onStateChange: () => () => {},
+    disconnect: () => {},
+  };
+}
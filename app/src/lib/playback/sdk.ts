@@ -0,0 +1,88 @@
+/**
+ * sdk.ts
+ *
+ * The slice of the Spotify Web Playback SDK the app uses, and the loader
+ * that injects it. The loader is passed into the player rather than called
+ * directly, so a local mock SDK (mock-sdk.ts) can stand in for Spotify.
+ */
+
+const SDK_URL = 'https://sdk.scdn.co/spotify-player.js';
+const SDK_LOAD_TIMEOUT_MS = 15_000;
+
+export interface SpotifyPlayerState {
+  paused: boolean;
+  position: number;
+  duration: number;
+  track_window: {
+    current_track: { uri: string; name: string; artists: { name: string }[] } | null;
+  };
+}
+
+export interface SpotifySdkEvents {
+  ready: { device_id: string };
+  not_ready: { device_id: string };
+  player_state_changed: SpotifyPlayerState | null;
+  initialization_error: { message: string };
+  authentication_error: { message: string };
+  account_error: { message: string };
+  playback_error: { message: string };
+}
+
+export interface SpotifySdkPlayer {
+  connect(): Promise<boolean>;
+  disconnect(): void;
+  addListener<E extends keyof SpotifySdkEvents>(event: E, callback: (payload: SpotifySdkEvents[E]) => void): boolean;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  // Unlocks audio on browsers that require a gesture (Safari, mobile)
+  activateElement?(): Promise<void>;
+}
+
+export interface SpotifySdkPlayerOptions {
+  name: string;
+  getOAuthToken: (callback: (token: string) => void) => void;
+  volume?: number;
+}
+
+export interface SpotifySdk {
+  Player: new (options: SpotifySdkPlayerOptions) => SpotifySdkPlayer;
+}
+
+export type SdkLoader = () => Promise<SpotifySdk>;
+
+declare global {
+  interface Window {
+    Spotify?: SpotifySdk;
+    onSpotifyWebPlaybackSDKReady?: () => void;
+  }
+}
+
+let sdkPromise: Promise<SpotifySdk> | null = null;
+
+// Injects the SDK script once; later calls share the same promise
+export const loadSpotifySdk: SdkLoader = () => {
+  if (window.Spotify) return Promise.resolve(window.Spotify);
+  if (sdkPromise) return sdkPromise;
+
+  sdkPromise = new Promise<SpotifySdk>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Spotify player SDK took too long to load')), SDK_LOAD_TIMEOUT_MS);
+    window.onSpotifyWebPlaybackSDKReady = () => {
+      clearTimeout(timer);
+      if (window.Spotify) resolve(window.Spotify);
+      else reject(new Error('Spotify player SDK loaded without a Spotify global'));
+    };
+    const script = document.createElement('script');
+    script.src = SDK_URL;
+    script.async = true;
+    script.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error('Could not load the Spotify player SDK'));
+    };
+    document.body.appendChild(script);
+  }).catch(err => {
+    // Let a later attempt try again
+    sdkPromise = null;
+    throw err;
+  });
+  return sdkPromise;
+};
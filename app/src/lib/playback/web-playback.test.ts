@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWebPlaybackPlayer, type WebPlaybackOptions } from '@/lib/playback/web-playback';
+import { createMockSpotifySdk, type MockSdkOutcome } from '@/lib/playback/mock-sdk';
+import { IDLE_PLAYBACK, type PlaybackState } from '@/lib/playback/player';
+import type { SpotifySdk, SpotifySdkPlayerOptions } from '@/lib/playback/sdk';
+
+function setup(outcome: MockSdkOutcome = 'ready', options: Partial<WebPlaybackOptions> = {}) {
+  const mock = createMockSpotifySdk(outcome);
+  const player = createWebPlaybackPlayer({
+    getAccessToken: async () => 'token',
+    loadSdk: mock.loadSdk,
+    startPlayback: mock.startPlayback,
+    readyTimeoutMs: 50,
+    ...options,
+  });
+  return { mock, player };
+}
+
+describe('createWebPlaybackPlayer', () => {
+  it('registers a device and plays on it once the SDK is ready', async () => {
+    const { mock, player: pending } = setup();
+    const player = await pending;
+    expect(player.available).toBe(true);
+    expect(mock.players).toHaveLength(1);
+    expect(mock.players[0].connected).toBe(true);
+
+    const states: PlaybackState[] = [];
+    player.onStateChange(state => states.push(state));
+    await player.play('spotify:track:abc');
+    await player.pause();
+    await player.resume();
+    expect(states).toEqual([
+      { uri: 'spotify:track:abc', paused: false },
+      { uri: 'spotify:track:abc', paused: true },
+      { uri: 'spotify:track:abc', paused: false },
+    ]);
+
+    player.disconnect();
+    expect(mock.players[0].connected).toBe(false);
+  });
+
+  it('resets to idle when a track fails to play', async () => {
+    const { mock, player: pending } = setup();
+    const player = await pending;
+    const states: PlaybackState[] = [];
+    player.onStateChange(state => states.push(state));
+    await player.play('spotify:track:abc');
+    mock.players[0].emit('playback_error', { message: 'Mock playback error' });
+    expect(states.at(-1)).toEqual(IDLE_PLAYBACK);
+  });
+
+  it.each(['initialization_error', 'authentication_error', 'account_error'] as const)(
+    'falls back to the no-op player on %s',
+    async outcome => {
+      const { mock, player: pending } = setup(outcome);
+      const player = await pending;
+      expect(player.available).toBe(false);
+      expect(mock.players[0].connected).toBe(false);
+    }
+  );
+
+  it('falls back when connect() returns false', async () => {
+    // The mock refuses to connect without a token
+    const { mock, player: pending } = setup('ready', { getAccessToken: async () => '' });
+    const player = await pending;
+    expect(player.available).toBe(false);
+    expect(mock.players[0].connected).toBe(false);
+  });
+
+  it('falls back when the device never becomes ready', async () => {
+    vi.useFakeTimers();
+    try {
+      const { player: pending } = setup('no_response', { readyTimeoutMs: 10_000 });
+      await vi.advanceTimersByTimeAsync(10_000);
+      expect((await pending).available).toBe(false);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('falls back when the SDK cannot construct a player', async () => {
+    const { Player } = await createMockSpotifySdk().loadSdk();
+    const sdk: SpotifySdk = {
+      Player: class extends Player {
+        constructor(options: SpotifySdkPlayerOptions) {
+          super(options);
+          throw new Error('Unsupported browser');
+        }
+      },
+    };
+    const { player: pending } = setup('ready', { loadSdk: async () => sdk });
+    expect((await pending).available).toBe(false);
+  });
+
+  it('falls back to a no-op player that ignores every call when the SDK fails to load', async () => {
+    const { player: pending } = setup('ready', { loadSdk: () => Promise.reject(new Error('blocked')) });
+    const player = await pending;
+    expect(player.available).toBe(false);
+    const listener = vi.fn();
+    player.onStateChange(listener)();
+    await expect(player.play('spotify:track:abc')).resolves.toBeUndefined();
+    await expect(player.pause()).resolves.toBeUndefined();
+    expect(listener).not.toHaveBeenCalled();
+    expect(() => player.disconnect()).not.toThrow();
+  });
+});
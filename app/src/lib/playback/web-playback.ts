@@ -0,0 +1,104 @@
+/**
+ * web-playback.ts
+ *
+ * TrackPlayer backed by the Spotify Web Playback SDK: registers this tab as
+ * a Spotify Connect device, then starts tracks on it through the Web API.
+ * Anything short of a ready device — SDK blocked, unsupported browser,
+ * missing `streaming` scope, non-Premium account — resolves to the no-op
+ * player instead of failing.
+ */
+
+import { createNoopPlayer, IDLE_PLAYBACK, type PlaybackState, type TrackPlayer } from '@/lib/playback/player';
+import { loadSpotifySdk, type SdkLoader } from '@/lib/playback/sdk';
+
+export interface WebPlaybackOptions {
+  getAccessToken: () => Promise<string>;
+  // PUT /me/player/play on the SDK's device
+  startPlayback: (deviceId: string, uri: string) => Promise<void>;
+  loadSdk?: SdkLoader;
+  name?: string;
+  readyTimeoutMs?: number;
+}
+
+const DEFAULT_NAME = 'Frequencies Documentary';
+const DEFAULT_READY_TIMEOUT_MS = 10_000;
+const VOLUME = 0.8;
+
+export async function createWebPlaybackPlayer(options: WebPlaybackOptions): Promise<TrackPlayer> {
+  const {
+    getAccessToken, startPlayback,
+    loadSdk = loadSpotifySdk, name = DEFAULT_NAME, readyTimeoutMs = DEFAULT_READY_TIMEOUT_MS,
+  } = options;
+
+  let sdk;
+  try {
+    sdk = await loadSdk();
+  } catch {
+    return createNoopPlayer();
+  }
+
+  let player;
+  try {
+    player = new sdk.Player({
+      name,
+      getOAuthToken: callback => {
+        // Without a token the device never becomes ready; the timeout below covers it
+        getAccessToken().then(callback).catch(() => {});
+      },
+      volume: VOLUME,
+    });
+  } catch {
+    // An SDK that loads but can't construct a player (unsupported browser)
+    return createNoopPlayer();
+  }
+
+  const listeners = new Set<(state: PlaybackState) => void>();
+  const setState = (state: PlaybackState) => listeners.forEach(listener => listener(state));
+  player.addListener('player_state_changed', sdkState => setState(sdkState
+    ? { uri: sdkState.track_window.current_track?.uri ?? null, paused: sdkState.paused }
+    : IDLE_PLAYBACK));
+  // A track that fails to play leaves nothing playing; the UI resets its play button
+  player.addListener('playback_error', () => setState(IDLE_PLAYBACK));
+
+  const deviceId = await new Promise<string | null>(resolve => {
+    const timer = setTimeout(() => resolve(null), readyTimeoutMs);
+    const fail = () => {
+      clearTimeout(timer);
+      resolve(null);
+    };
+    player.addListener('ready', ({ device_id }) => {
+      clearTimeout(timer);
+      resolve(device_id);
+    });
+    player.addListener('initialization_error', fail);
+    player.addListener('authentication_error', fail);
+    player.addListener('account_error', fail);
+    player.connect()
+      .then(connected => { if (!connected) fail(); })
+      .catch(fail);
+  });
+
+  if (!deviceId) {
+    player.disconnect();
+    return createNoopPlayer();
+  }
+
+  return {
+    available: true,
+    async play(uri) {
+      // Called synchronously, so it still runs inside the click's gesture
+      await player.activateElement?.();
+      await startPlayback(deviceId, uri);
+    },
+    pause: () => player.pause(),
+    resume: () => player.resume(),
+    onStateChange(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    disconnect() {
+      listeners.clear();
+      player.disconnect();
+    },
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The router reads the current location and listens for popstate on import
+vi.hoisted(() => {
+  vi.stubGlobal('window', {
+    location: { pathname: '/', search: '', hash: '' },
+    addEventListener: () => {},
+  });
+});
+
+const { chapterFromHash, parseRoute, withChapterHash } = await import('@/lib/routing/router');
+
+const SHARE = '#share=1.eNpLTEoGAAJNASc';
+
+describe('parseRoute', () => {
+  it('reads the chapter from the fragment', () => {
+    expect(parseRoute('/doc', '#3')).toEqual({ name: 'doc', chapter: '3' });
+    expect(parseRoute('/doc', '')).toEqual({ name: 'doc', chapter: 'prologue' });
+    expect(parseRoute('/shared', `${SHARE}&summary`)).toEqual({ name: 'shared', chapter: 'summary' });
+  });
+
+  it('still accepts /doc/:chapter deep links, with the fragment winning', () => {
+    expect(parseRoute('/doc/3')).toEqual({ name: 'doc', chapter: '3' });
+    expect(parseRoute('/doc/3', '#verdict')).toEqual({ name: 'doc', chapter: 'verdict' });
+    expect(parseRoute('/doc/7')).toEqual({ name: 'not-found' });
+  });
+
+  it('ignores a fragment that names no chapter', () => {
+    expect(parseRoute('/shared', SHARE)).toEqual({ name: 'shared', chapter: 'prologue' });
+    expect(chapterFromHash('#nowhere')).toBeNull();
+  });
+});
+
+describe('withChapterHash', () => {
+  it('replaces the chapter and keeps the share payload first', () => {
+    expect(withChapterHash('', '2')).toBe('#2');
+    expect(withChapterHash('#2', '4')).toBe('#4');
+    expect(withChapterHash(SHARE, '1')).toBe(`${SHARE}&1`);
+    expect(withChapterHash(`${SHARE}&1`, 'verdict')).toBe(`${SHARE}&verdict`);
+  });
+
+  it('drops the chapter for the prologue', () => {
+    expect(withChapterHash('#3', 'prologue')).toBe('');
+    expect(withChapterHash(`${SHARE}&3`, 'prologue')).toBe(SHARE);
+  });
+});
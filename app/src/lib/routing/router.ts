@@ -0,0 +1,144 @@
+/**
+ * router.ts
+ *
+ * The app's routes and a minimal History API router — enough for a handful
+ * of screens without pulling in a routing library.
+ *
+ *   /                   intro
+ *   /callback           Spotify OAuth redirect target
+ *   /doc#:chapter       your documentary (or the demo), at a chapter
+ *   /shared#share=…     a shared documentary; the chapter follows as &:chapter
+ *   /settings           setup & diagnostics
+ *   /compare            compare two exported reports
+ *   /privacy            what's stored in this browser, logout and deletion
+ *
+ * `/doc/:chapter` and `/shared/:chapter` deep links are accepted too; a
+ * chapter in the fragment wins over one in the path.
+ *
+ * Navigations bump `key`, which is what screens react to (scroll to a
+ * chapter, say). `syncChapter` only mirrors the reading position into the
+ * address bar, so it keeps the key and never triggers a scroll.
+ */
+
+export type ChapterSlug = 'prologue' | '1' | '2' | '3' | '4' | 'summary' | 'verdict';
+
+export type Route =
+  | { name: 'intro' }
+  | { name: 'callback' }
+  | { name: 'doc'; chapter: ChapterSlug }
+  | { name: 'shared'; chapter: ChapterSlug }
+  | { name: 'settings' }
+  | { name: 'compare' }
+  | { name: 'privacy' }
+  | { name: 'not-found' };
+
+export interface RouterSnapshot {
+  route: Route;
+  // Increments on every navigation, including back/forward
+  key: number;
+}
+
+// Documentary sections in page order. IDs match the scroll spy in App.tsx.
+export const DOC_SECTIONS: { slug: ChapterSlug; sectionId: string; name: string }[] = [
+  { slug: 'prologue', sectionId: 'hero', name: 'PROLOGUE' },
+  { slug: '1', sectionId: 'ch1', name: 'CHAPTER ONE' },
+  { slug: '2', sectionId: 'ch2', name: 'CHAPTER TWO' },
+  { slug: '3', sectionId: 'ch3', name: 'CHAPTER THREE' },
+  { slug: '4', sectionId: 'ch4', name: 'CHAPTER FOUR' },
+  { slug: 'summary', sectionId: 'summary', name: 'SUMMARY' },
+  { slug: 'verdict', sectionId: 'ch5', name: 'FINAL CHAPTER' },
+];
+
+function parseChapter(segment: string | undefined): ChapterSlug | null {
+  if (!segment) return 'prologue';
+  const section = DOC_SECTIONS.find(s => s.slug === decodeURIComponent(segment).toLowerCase());
+  return section ? section.slug : null;
+}
+
+// The fragment is '&'-separated parts: a bare chapter slug, and for shared
+// documentaries the `share=` payload, which stays first
+function hashParts(hash: string): string[] {
+  return hash.replace(/^#/, '').split('&').filter(Boolean);
+}
+
+function isChapterPart(part: string): boolean {
+  return DOC_SECTIONS.some(s => s.slug === part.toLowerCase());
+}
+
+export function chapterFromHash(hash: string): ChapterSlug | null {
+  const part = hashParts(hash).find(isChapterPart);
+  return part ? parseChapter(part) : null;
+}
+
+export function parseRoute(pathname: string, hash = ''): Route {
+  const [head, chapterSegment, ...rest] = pathname.split('/').filter(Boolean);
+  if (rest.length > 0) return { name: 'not-found' };
+  switch (head) {
+    case undefined:
+      return { name: 'intro' };
+    case 'callback':
+    case 'settings':
+    case 'compare':
+    case 'privacy':
+      return chapterSegment ? { name: 'not-found' } : { name: head };
+    case 'doc':
+    case 'shared': {
+      const chapter = parseChapter(chapterSegment);
+      return chapter ? { name: head, chapter: chapterFromHash(hash) ?? chapter } : { name: 'not-found' };
+    }
+    default:
+      return { name: 'not-found' };
+  }
+}
+
+export function docPath(base: 'doc' | 'shared'): string {
+  return `/${base}`;
+}
+
+// Replaces the chapter part of a fragment; the prologue has none
+export function withChapterHash(hash: string, chapter: ChapterSlug): string {
+  const parts = hashParts(hash).filter(part => !isChapterPart(part));
+  if (chapter !== 'prologue') parts.push(chapter);
+  return parts.length > 0 ? `#${parts.join('&')}` : '';
+}
+
+// ─── History ──────────────────────────────────────────────────────────────────
+
+const currentRoute = () => parseRoute(window.location.pathname, window.location.hash);
+
+let snapshot: RouterSnapshot = { route: currentRoute(), key: 0 };
+const listeners = new Set<() => void>();
+
+function publish(key: number) {
+  snapshot = { route: currentRoute(), key };
+  listeners.forEach(listener => listener());
+}
+
+window.addEventListener('popstate', () => publish(snapshot.key + 1));
+
+export function subscribeRouter(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function getRouterSnapshot(): RouterSnapshot {
+  return snapshot;
+}
+
+// `path` may carry a query or fragment; otherwise the current fragment is dropped
+export function navigate(path: string, options: { replace?: boolean } = {}): void {
+  window.history[options.replace ? 'replaceState' : 'pushState']({}, '', path);
+  publish(snapshot.key + 1);
+}
+
+// Writes the chapter into the fragment, keeping the query and any share
+// payload. A /doc/:chapter deep link settles on the bare /doc meanwhile.
+export function syncChapter(chapter: ChapterSlug): void {
+  const { route } = snapshot;
+  if (route.name !== 'doc' && route.name !== 'shared') return;
+  const { pathname, search, hash } = window.location;
+  const next = `${docPath(route.name)}${search}${withChapterHash(hash, chapter)}`;
+  if (next === `${pathname}${search}${hash}`) return;
+  window.history.replaceState({}, '', next);
+  publish(snapshot.key);
+}
@@ -0,0 +1,71 @@
+/**
+ * canvas.ts
+ *
+ * Shared 2D-canvas drawing for generated media (posters, video frames):
+ * the noir palette, fonts, and text helpers canvas doesn't provide.
+ */
+
+// Same palette as index.css
+export const COLORS = {
+  black: '#080808',
+  offWhite: '#f0ebe3',
+  cream: '#e8e0d0',
+  red: '#c0392b',
+  steel: '#8a9099',
+  dim: '#1a1a1a',
+};
+
+export const FONTS = {
+  display: "'Playfair Display', serif",
+  mono: "'DM Mono', monospace",
+  stat: "'Bebas Neue', sans-serif",
+};
+
+export function stripTags(text: string): string {
+  return text.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  text.split(' ').forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Canvas has no letter-spacing in older browsers; space the caps by hand
+export function drawSpaced(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, spacing: number) {
+  let cursor = x;
+  for (const ch of text) {
+    ctx.fillText(ch, cursor, y);
+    cursor += ctx.measureText(ch).width + spacing;
+  }
+}
+
+export function drawGrain(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  ctx.fillStyle = 'rgba(240, 235, 227, 0.035)';
+  for (let i = 0; i < (width * height) / 400; i++) {
+    ctx.fillRect(Math.random() * width, Math.random() * height, 1.5, 1.5);
+  }
+}
+
+export async function ensureFonts() {
+  if (!document.fonts) return;
+  try {
+    await Promise.all([
+      document.fonts.load(`italic 700 80px ${FONTS.display}`),
+      document.fonts.load(`400 24px ${FONTS.mono}`),
+      document.fonts.load(`400 96px ${FONTS.stat}`),
+    ]);
+  } catch {
+    // Fall back to whatever is available
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * download.ts
+ *
+ * Saves a generated file (poster, reel script, subtitles) through a
+ * temporary object URL.
+ */
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download a moment to start before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadText(text: string, filename: string, type = 'text/plain'): void {
+  downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), filename);
+}
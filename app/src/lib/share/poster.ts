@@ -0,0 +1,168 @@
+/**
+ * poster.ts
+ *
+ * Draws the documentary summary as a shareable poster on a canvas — headline,
+ * archetype, key stats and a mini valence wave — and exports it as PNG.
+ * Entirely client-side; nothing leaves the browser.
+ */
+
+import type { DocumentaryScript, PosterData, TimeSeriesPoint } from '@/types/spotify-analysis';
+import { downloadBlob } from '@/lib/share/download';
+import {
+  COLORS, FONTS, drawGrain, drawSpaced, ensureFonts, stripTags, wrapText,
+} from '@/lib/share/canvas';
+
+export type PosterFormat = 'story' | 'square';
+
+export const POSTER_SIZES: Record<PosterFormat, { width: number; height: number }> = {
+  story: { width: 1080, height: 1920 },
+  square: { width: 1080, height: 1080 },
+};
+
+const MAX_WAVE_POINTS = 80;
+const MAX_STATS = 4;
+
+export function buildPosterData(
+  script: DocumentaryScript,
+  archetype: string,
+  arc: TimeSeriesPoint[]
+): PosterData {
+  return {
+    headline: script.summary.headline,
+    archetype,
+    stats: script.summary.stats.slice(0, MAX_STATS),
+    valenceWave: arc.map(p => p.valence),
+    userName: script.userName,
+    generatedAt: script.generatedAt,
+  };
+}
+
+// ─── Drawing helpers ──────────────────────────────────────────────────────────
+
+function downsample(values: number[], max: number): number[] {
+  if (values.length <= max) return values;
+  const size = values.length / max;
+  return Array.from({ length: max }, (_, i) => {
+    const bucket = values.slice(Math.floor(i * size), Math.floor((i + 1) * size));
+    return bucket.reduce((a, b) => a + b, 0) / bucket.length;
+  });
+}
+
+function drawWave(ctx: CanvasRenderingContext2D, values: number[], x: number, y: number, width: number, height: number) {
+  // Neutral-mood baseline
+  ctx.strokeStyle = COLORS.dim;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([8, 10]);
+  ctx.beginPath();
+  ctx.moveTo(x, y + height / 2);
+  ctx.lineTo(x + width, y + height / 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  const points = downsample(values, MAX_WAVE_POINTS);
+  if (points.length < 2) return;
+  ctx.strokeStyle = COLORS.red;
+  ctx.lineWidth = 4;
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  points.forEach((v, i) => {
+    const px = x + (i / (points.length - 1)) * width;
+    const py = y + (1 - Math.min(Math.max(v, 0), 1)) * height;
+    if (i === 0) ctx.moveTo(px, py); else ctx.lineTo(px, py);
+  });
+  ctx.stroke();
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export async function renderPoster(data: PosterData, format: PosterFormat): Promise<HTMLCanvasElement> {
+  await ensureFonts();
+  const { width, height } = POSTER_SIZES[format];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not supported in this browser');
+
+  const isStory = format === 'story';
+  const margin = 90;
+  const contentWidth = width - margin * 2;
+
+  ctx.fillStyle = COLORS.black;
+  ctx.fillRect(0, 0, width, height);
+  drawGrain(ctx, width, height);
+  ctx.textBaseline = 'alphabetic';
+
+  // Tag
+  let y = isStory ? 200 : 130;
+  ctx.fillStyle = COLORS.red;
+  ctx.font = `400 22px ${FONTS.mono}`;
+  drawSpaced(ctx, 'FREQUENCIES · A DOCUMENTARY ABOUT YOUR TASTE', margin, y, 5);
+
+  // Headline
+  const headlineSize = isStory ? 96 : 72;
+  ctx.fillStyle = COLORS.offWhite;
+  ctx.font = `italic 700 ${headlineSize}px ${FONTS.display}`;
+  y += isStory ? 150 : 110;
+  wrapText(ctx, stripTags(data.headline), contentWidth).slice(0, isStory ? 4 : 3).forEach(line => {
+    ctx.fillText(line, margin, y);
+    y += headlineSize * 1.15;
+  });
+
+  // Archetype
+  y += isStory ? 40 : 10;
+  ctx.fillStyle = COLORS.steel;
+  ctx.font = `400 20px ${FONTS.mono}`;
+  drawSpaced(ctx, 'CLASSIFIED AS', margin, y, 6);
+  y += isStory ? 60 : 50;
+  ctx.fillStyle = COLORS.red;
+  ctx.font = `400 ${isStory ? 64 : 52}px ${FONTS.stat}`;
+  drawSpaced(ctx, stripTags(data.archetype).toUpperCase(), margin, y, 3);
+
+  // Stats grid: 2x2 on a story, one row on a square
+  const columns = isStory ? 2 : Math.min(data.stats.length, MAX_STATS) || 1;
+  const cellWidth = contentWidth / columns;
+  const cellHeight = isStory ? 220 : 150;
+  y += isStory ? 110 : 60;
+  data.stats.slice(0, MAX_STATS).forEach((stat, i) => {
+    const cx = margin + (i % columns) * cellWidth;
+    const cy = y + Math.floor(i / columns) * cellHeight;
+    ctx.strokeStyle = COLORS.dim;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(cx, cy, cellWidth - 16, cellHeight - 20);
+    ctx.fillStyle = COLORS.offWhite;
+    ctx.font = `400 ${isStory ? 96 : 64}px ${FONTS.stat}`;
+    ctx.fillText(stat.value, cx + 28, cy + (isStory ? 110 : 78));
+    ctx.fillStyle = COLORS.steel;
+    ctx.font = `400 ${isStory ? 20 : 13}px ${FONTS.mono}`;
+    drawSpaced(ctx, stat.label.toUpperCase(), cx + 28, cy + (isStory ? 160 : 112), isStory ? 3 : 1);
+  });
+
+  // Valence wave
+  const waveHeight = isStory ? 200 : 130;
+  const waveTop = height - (isStory ? 400 : 270);
+  ctx.fillStyle = COLORS.steel;
+  ctx.font = `400 18px ${FONTS.mono}`;
+  drawSpaced(ctx, 'EMOTIONAL ARC · VALENCE', margin, waveTop - 24, 6);
+  drawWave(ctx, data.valenceWave, margin, waveTop, contentWidth, waveHeight);
+
+  // Footer
+  ctx.fillStyle = COLORS.steel;
+  ctx.font = `400 18px ${FONTS.mono}`;
+  const date = new Date(data.generatedAt).toLocaleDateString();
+  ctx.fillText(`Generated for ${data.userName} · ${date} · Not affiliated with Spotify`, margin, height - (isStory ? 120 : 70));
+
+  return canvas;
+}
+
+export function posterToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode poster PNG')), 'image/png');
+  });
+}
+
+export async function downloadPoster(data: PosterData, format: PosterFormat): Promise<void> {
+  const blob = await posterToBlob(await renderPoster(data, format));
+  const { width, height } = POSTER_SIZES[format];
+  downloadBlob(blob, `frequencies-${format}-${width}x${height}.png`);
+}
@@ -0,0 +1,51 @@
+/**
+ * reel-export.ts
+ *
+ * Formats a ReelContent script for the clipboard and for download: a
+ * plain-text shooting script (.txt) and voice-over subtitles (.srt).
+ */
+
+import type { ReelContent } from '@/types/spotify-analysis';
+import { downloadText } from '@/lib/share/download';
+
+function formatClock(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+}
+
+// SRT timestamps are HH:MM:SS,mmm
+function formatSrtTime(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)},${pad(ms % 1000, 3)}`;
+}
+
+export function reelDuration(reel: ReelContent): number {
+  return reel.scenes[reel.scenes.length - 1]?.end ?? 0;
+}
+
+export function formatReelText(reel: ReelContent): string {
+  const scenes = reel.scenes.map((scene, i) => [
+    `SCENE ${i + 1} · ${formatClock(scene.start)}–${formatClock(scene.end)}`,
+    `VO: ${scene.voiceOver}`,
+    `VISUAL: ${scene.visual}`,
+  ].join('\n'));
+  return [
+    `FREQUENCIES REEL · ${reel.tone.toUpperCase()} · ${formatClock(reelDuration(reel))}`,
+    ...scenes,
+    `AUDIO: ${reel.audioSuggestion}`,
+    reel.hashtags.join(' '),
+  ].join('\n\n') + '\n';
+}
+
+export function formatReelSrt(reel: ReelContent): string {
+  return reel.scenes
+    .map((scene, i) => `${i + 1}\n${formatSrtTime(scene.start)} --> ${formatSrtTime(scene.end)}\n${scene.voiceOver}\n`)
+    .join('\n');
+}
+
+export function downloadReel(reel: ReelContent, format: 'txt' | 'srt'): void {
+  const text = format === 'txt' ? formatReelText(reel) : formatReelSrt(reel);
+  downloadText(text, `frequencies-reel-${reel.tone}.${format}`, format === 'txt' ? 'text/plain' : 'application/x-subrip');
+}
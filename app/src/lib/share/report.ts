@@ -0,0 +1,402 @@
+/**
+ * report.ts
+ *
+ * Exports the analysis behind a documentary as an archivable report: the
+ * ListeningProfile, the DocumentaryScript, the tone and a flat table of
+ * headline metrics, as versioned JSON and as a readable Markdown file.
+ *
+ * The JSON shape is defined by a zod schema and validated on the way out
+ * and on the way back in (`parseReport`), so archived reports from
+ * different years can be diffed and reloaded with confidence. Spotify
+ * objects are reduced to ids, names and the fields the analysis used —
+ * image URLs and markets would only add diff noise.
+ */
+
+import { z } from 'zod';
+import { downloadText } from '@/lib/share/download';
+import type { ToneMode } from '@/lib/narrative/toneData';
+import type {
+  DocumentaryScript, ListeningProfile, QuarterlyListening, SpotifyArtist, SpotifyTrack,
+} from '@/types/spotify-analysis';
+
+export const REPORT_VERSION = 1;
+const REPORT_KIND = 'frequencies-report';
+
+export interface ReportSource {
+  profile: ListeningProfile;
+  script: DocumentaryScript;
+  tone: ToneMode;
+  archetype: string;
+}
+
+export type ReportFormat = 'json' | 'md';
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+
+const genreWeightSchema = z.object({ name: z.string(), weight: z.number(), percentage: z.number() });
+const artistSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  genres: z.array(z.string()),
+  popularity: z.number(),
+});
+const trackSchema = z.object({ id: z.string(), name: z.string(), artists: z.array(z.string()) });
+const timeRangeSchema = z.object({ start: z.string(), end: z.string(), valence: z.number(), repeatCount: z.number() });
+const repeatLoopSchema = z.object({
+  trackId: z.string(),
+  trackName: z.string(),
+  count: z.number(),
+  avgValence: z.number(),
+  timestamps: z.array(z.string()),
+});
+const periodSchema = z.object({
+  period: z.string(),
+  topGenres: z.array(genreWeightSchema),
+  mainstreamPercentage: z.number(),
+  averageValence: z.number(),
+  averageEnergy: z.number(),
+  topTracks: z.array(trackSchema),
+});
+const dataPointSchema = z.object({
+  label: z.string(),
+  value: z.string(),
+  subtext: z.string().optional(),
+  trend: z.enum(['up', 'down', 'neutral']).optional(),
+});
+
+const profileSchema = z.object({
+  identity: z.object({
+    claimedGenres: z.array(z.string()),
+    claimedArtists: z.array(z.string()),
+    claimedMoods: z.array(z.enum(['euphoric', 'melancholic', 'energetic', 'calm', 'angry', 'dreamy'])),
+    claimGap: z.object({
+      score: z.number(),
+      genreMatch: z.number().nullable(),
+      artistMatch: z.number().nullable(),
+      moodMatch: z.number().nullable(),
+      unmatchedGenres: z.array(z.string()),
+      unmatchedArtists: z.array(z.string()),
+    }).nullable(),
+    actualTopGenres: z.array(genreWeightSchema),
+    mainstreamPercentage: z.number(),
+    hipsterScore: z.number(),
+    topArtists: z.array(artistSchema),
+    artistDiversity: z.number(),
+  }),
+  emotional: z.object({
+    valenceVolatility: z.number(),
+    energyArc: z.array(z.object({
+      date: z.string(),
+      valence: z.number(),
+      energy: z.number(),
+      tempo: z.number(),
+      isCopingCluster: z.boolean().optional(),
+    })),
+    melancholyClusters: z.array(timeRangeSchema),
+    copingIndicators: z.array(z.object({
+      type: z.enum(['repeat_loop', 'night_sadness', 'energy_crash', 'genre_retreat']),
+      severity: z.number(),
+      description: z.string(),
+      evidence: z.array(z.string()),
+    })),
+    stabilityScore: z.number(),
+    oscillationPattern: z.number(),
+    psychologicalState: z.string(),
+    averageValence: z.number(),
+    averageEnergy: z.number(),
+  }),
+  behavioral: z.object({
+    circadianPatterns: z.object({
+      nightOwlScore: z.number(),
+      nightRatio: z.number(),
+      nightValence: z.number(),
+      averageNightValence: z.number(),
+      sadnessLoops: z.array(repeatLoopSchema),
+      loops: z.array(repeatLoopSchema),
+      insomniaIndicators: z.boolean(),
+      confrontation: z.string(),
+    }),
+    obsessionLoops: z.array(z.object({
+      kind: z.enum(['track', 'artist']),
+      trackId: z.string(),
+      trackName: z.string(),
+      artistName: z.string(),
+      playCount: z.number(),
+      timeRange: timeRangeSchema,
+      isNightTime: z.boolean(),
+    })),
+    phaseShifts: z.array(z.object({
+      quarter: z.string(),
+      beforeEntropy: z.number(),
+      afterEntropy: z.number(),
+      topGenreBefore: z.string(),
+      topGenreAfter: z.string(),
+      trigger: z.string(),
+      psychologicalReading: z.string(),
+    })),
+    comfortZoneMetrics: z.object({
+      bpmVariance: z.number(),
+      genreEntropy: z.number(),
+      artistLoyalty: z.number(),
+      bpmRange: z.object({ min: z.number(), max: z.number() }),
+    }),
+  }),
+  temporal: z.object({
+    totalListeningTime: z.number(),
+    activeDays: z.number(),
+    coverageDays: z.number(),
+    peakListeningHour: z.number(),
+    quarterlyBreakdown: z.array(periodSchema),
+    monthlyBreakdown: z.array(periodSchema),
+  }),
+  featureCoverage: z.object({ measured: z.number(), lookup: z.number(), estimated: z.number() }),
+});
+
+const scriptSchema = z.object({
+  userName: z.string(),
+  generatedAt: z.string(),
+  totalDuration: z.number(),
+  chapters: z.array(z.object({
+    id: z.string(),
+    type: z.enum(['identity', 'emotional', 'nocturnal', 'phases', 'summary']),
+    title: z.string(),
+    subtitle: z.string(),
+    narrative: z.string(),
+    confrontation: z.string(),
+    dataPoints: z.array(dataPointSchema),
+    duration: z.number(),
+  })),
+  summary: z.object({
+    headline: z.string(),
+    subheadline: z.string(),
+    keyInsight: z.string(),
+    confrontation: z.string(),
+    closingThought: z.string(),
+    stats: z.array(dataPointSchema),
+  }),
+});
+
+// Flat, rounded headline numbers: the part of a report worth diffing first
+const metricsSchema = z.record(z.string(), z.number().nullable());
+
+export const documentaryReportSchema = z.object({
+  kind: z.literal(REPORT_KIND),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  tone: z.enum(['brutal', 'poetic', 'analytical', 'motivational']),
+  archetype: z.string(),
+  metrics: metricsSchema,
+  profile: profileSchema,
+  script: scriptSchema,
+});
+
+export type DocumentaryReport = z.infer<typeof documentaryReportSchema>;
+
+// ─── Serialization ────────────────────────────────────────────────────────────
+
+const round = (value: number) => Math.round(value * 10_000) / 10_000;
+
+const toArtist = (a: SpotifyArtist) => ({ id: a.id, name: a.name, genres: a.genres, popularity: a.popularity });
+const toTrack = (t: SpotifyTrack) => ({ id: t.id, name: t.name, artists: t.artists.map(a => a.name) });
+const toPeriod = (p: QuarterlyListening) => ({ ...p, topTracks: p.topTracks.map(toTrack) });
+
+function buildMetrics(profile: ListeningProfile): Record<string, number | null> {
+  const { identity, emotional, behavioral, temporal } = profile;
+  const metrics: Record<string, number | null> = {
+    totalListeningMinutes: temporal.totalListeningTime,
+    activeDays: temporal.activeDays,
+    coverageDays: temporal.coverageDays,
+    peakListeningHour: temporal.peakListeningHour,
+    mainstreamPercentage: identity.mainstreamPercentage,
+    hipsterScore: identity.hipsterScore,
+    artistDiversity: identity.artistDiversity,
+    claimGap: identity.claimGap?.score ?? null,
+    averageValence: emotional.averageValence,
+    averageEnergy: emotional.averageEnergy,
+    valenceVolatility: emotional.valenceVolatility,
+    stabilityScore: emotional.stabilityScore,
+    nightOwlScore: behavioral.circadianPatterns.nightOwlScore,
+    nightRatio: behavioral.circadianPatterns.nightRatio,
+    genreEntropy: behavioral.comfortZoneMetrics.genreEntropy,
+    artistLoyalty: behavioral.comfortZoneMetrics.artistLoyalty,
+    bpmVariance: behavioral.comfortZoneMetrics.bpmVariance,
+    obsessionLoops: behavioral.obsessionLoops.length,
+    phaseShifts: behavioral.phaseShifts.length,
+    measuredFeatureCoverage: profile.featureCoverage.measured,
+  };
+  return Object.fromEntries(Object.entries(metrics).map(([key, value]) => [key, value === null ? null : round(value)]));
+}
+
+// ─── Comparison ───────────────────────────────────────────────────────────────
+
+export interface MetricChange {
+  metric: string;
+  before: number | null;
+  after: number | null;
+  // null when either side is missing the metric
+  delta: number | null;
+}
+
+export interface ReportComparison {
+  metrics: MetricChange[];
+  genres: { gained: string[]; lost: string[] };
+  artists: { gained: string[]; lost: string[] };
+}
+
+const COMPARED_TOP_N = 10;
+
+function diffNames(before: string[], after: string[]): { gained: string[]; lost: string[] } {
+  return {
+    gained: after.filter(name => !before.includes(name)),
+    lost: before.filter(name => !after.includes(name)),
+  };
+}
+
+export function compareReports(before: DocumentaryReport, after: DocumentaryReport): ReportComparison {
+  // Metrics added in later report versions still show, with one side empty
+  const keys = [...new Set([...Object.keys(before.metrics), ...Object.keys(after.metrics)])];
+  const topGenres = (r: DocumentaryReport) => r.profile.identity.actualTopGenres.slice(0, COMPARED_TOP_N).map(g => g.name);
+  const topArtists = (r: DocumentaryReport) => r.profile.identity.topArtists.slice(0, COMPARED_TOP_N).map(a => a.name);
+  return {
+    metrics: keys.map(metric => {
+      const b = before.metrics[metric] ?? null;
+      const a = after.metrics[metric] ?? null;
+      return { metric, before: b, after: a, delta: a !== null && b !== null ? round(a - b) : null };
+    }),
+    genres: diffNames(topGenres(before), topGenres(after)),
+    artists: diffNames(topArtists(before), topArtists(after)),
+  };
+}
+
+// ─── Markdown ─────────────────────────────────────────────────────────────────
+
+// Table cells can't hold pipes or line breaks
+const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+function dataPointTable(points: z.infer<typeof dataPointSchema>[]): string[] {
+  if (points.length === 0) return [];
+  return [
+    '| Data point | Value | Note |',
+    '| --- | --- | --- |',
+    ...points.map(p => `| ${cell(p.label)} | ${cell(p.value)} | ${cell(p.subtext ?? '')} |`),
+    '',
+  ];
+}
+
+export function formatReportMarkdown(report: DocumentaryReport): string {
+  const { script, profile, metrics } = report;
+  const lines = [
+    `# ${script.userName} — ${report.archetype}`,
+    '',
+    `Exported ${report.exportedAt} · tone: ${report.tone} · script generated ${script.generatedAt} · report v${report.version}`,
+    '',
+    '## Metrics',
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    ...Object.entries(metrics).map(([key, value]) => `| ${key} | ${value ?? '—'} |`),
+    '',
+    `Top genres: ${profile.identity.actualTopGenres.slice(0, 5).map(g => g.name).join(', ') || '—'}`,
+    '',
+    `Top artists: ${profile.identity.topArtists.slice(0, 5).map(a => a.name).join(', ') || '—'}`,
+    '',
+  ];
+
+  script.chapters.forEach((chapter, i) => {
+    lines.push(
+      `## Chapter ${i + 1}: ${chapter.title}`,
+      '',
+      `*${chapter.subtitle}*`,
+      '',
+      chapter.narrative,
+      '',
+      ...dataPointTable(chapter.dataPoints),
+    );
+    if (chapter.confrontation) lines.push(`> **What the data says:** ${chapter.confrontation}`, '');
+  });
+
+  const { summary } = script;
+  lines.push(
+    '## Summary',
+    '',
+    `**${summary.headline}**`,
+    '',
+    summary.subheadline,
+    '',
+    summary.keyInsight,
+    '',
+    ...dataPointTable(summary.stats),
+    `> **The confrontation:** ${summary.confrontation}`,
+    '',
+    summary.closingThought,
+    '',
+  );
+  return lines.join('\n');
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function buildReport(source: ReportSource, exportedAt: Date = new Date()): DocumentaryReport {
+  const { profile, script } = source;
+  const report = {
+    kind: REPORT_KIND,
+    version: REPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    tone: source.tone,
+    archetype: source.archetype,
+    metrics: buildMetrics(profile),
+    profile: {
+      ...profile,
+      identity: { ...profile.identity, topArtists: profile.identity.topArtists.map(toArtist) },
+      temporal: {
+        ...profile.temporal,
+        quarterlyBreakdown: profile.temporal.quarterlyBreakdown.map(toPeriod),
+        monthlyBreakdown: profile.temporal.monthlyBreakdown.map(toPeriod),
+      },
+    },
+    script: {
+      userName: script.userName,
+      generatedAt: script.generatedAt,
+      totalDuration: script.totalDuration,
+      // The visual cue only drives on-screen animation, so it stays out
+      chapters: script.chapters.map(c => ({
+        id: c.id, type: c.type, title: c.title, subtitle: c.subtitle,
+        narrative: c.narrative, confrontation: c.confrontation, dataPoints: c.dataPoints, duration: c.duration,
+      })),
+      summary: script.summary,
+    },
+  };
+
+  // Catches NaNs and shape drift before they land in someone's archive
+  const parsed = documentaryReportSchema.safeParse(report);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Report failed validation at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+export function parseReport(json: string): DocumentaryReport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Report file is not valid JSON');
+  }
+  const version = (raw as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > REPORT_VERSION) {
+    throw new Error(`Report version ${version} is newer than this app supports (${REPORT_VERSION})`);
+  }
+  const parsed = documentaryReportSchema.safeParse(raw);
+  if (!parsed.success) throw new Error('File is not a Frequencies report');
+  return parsed.data;
+}
+
+export function downloadReport(report: DocumentaryReport, format: ReportFormat): void {
+  const date = report.exportedAt.slice(0, 10);
+  if (format === 'json') {
+    downloadText(`${JSON.stringify(report, null, 2)}\n`, `frequencies-report-${date}.json`, 'application/json');
+  } else {
+    downloadText(formatReportMarkdown(report), `frequencies-report-${date}.md`, 'text/markdown');
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SharedDocumentary } from '@/lib/share/share-link';
+
+// Share links are built from the current location; the router it imports
+// reads it and listens for popstate
+vi.hoisted(() => {
+  vi.stubGlobal('window', {
+    location: { href: 'https://frequencies.test/doc', pathname: '/doc', search: '', hash: '' },
+    addEventListener: () => {},
+  });
+});
+
+const { anonymizeDocumentary, createShareUrl, readSharedDocumentary } = await import('@/lib/share/share-link');
+
+function makeDocumentary(overrides: Partial<SharedDocumentary['content']> = {}): SharedDocumentary {
+  const chapter = { narrative: ['Nothing to see.'], verdict: 'Fine.' };
+  return {
+    tone: 'brutal',
+    uiData: {
+      userName: 'Sam',
+      totalMinutes: 1200,
+      isProjected: false,
+      daysOfData: 90,
+      totalSongs: 300,
+      topArtists: [{ rank: '01', title: 'Tom & Jerry', subtitle: '"Cat" fans', barWidth: '100%' }],
+      genreDistribution: [{ label: 'r&b', height: 80 }],
+      emotionalStats: [],
+      loopedTracks: [],
+      identityDrift: [],
+      emotionalArc: [],
+    },
+    script: {
+      chapters: [],
+      summary: { headline: '', subheadline: '', keyInsight: '', confrontation: '', closingThought: '', stats: [] },
+      totalDuration: 0,
+      userName: 'Sam',
+      generatedAt: '2025-01-01T00:00:00.000Z',
+    },
+    content: {
+      chapter1: chapter,
+      chapter2: chapter,
+      chapter3: chapter,
+      chapter4: chapter,
+      final: { headline: 'You were rooted.', body: 'Done.' },
+      ...overrides,
+    },
+  };
+}
+
+async function roundTrip(doc: SharedDocumentary): Promise<SharedDocumentary> {
+  return readSharedDocumentary(new URL(await createShareUrl(doc)).hash);
+}
+
+describe('share links', () => {
+  it('round-trips names with & and " without escaping them twice', async () => {
+    // As templates.ts escapes facts for the HTML paragraphs
+    const doc = makeDocumentary({
+      chapter1: {
+        narrative: ['Your listening clusters around <span class="hl">r&amp;b</span> and &quot;Tom &amp; Jerry&quot;.'],
+        verdict: 'You sample widely — but r&b keeps pulling you back.',
+      },
+    });
+    const shared = await roundTrip(doc);
+    expect(shared.content.chapter1.narrative[0])
+      .toBe('Your listening clusters around <span class="hl">r&amp;b</span> and "Tom &amp; Jerry".');
+    expect(shared.content.chapter1.verdict).toBe('You sample widely — but r&b keeps pulling you back.');
+    expect(shared.uiData.topArtists[0].title).toBe('Tom & Jerry');
+  });
+
+  it('still escapes markup the templates never emit', async () => {
+    const doc = makeDocumentary({
+      chapter2: { narrative: ['<img src=x onerror=alert(1)> &lt;script&gt;'], verdict: 'Fine.' },
+    });
+    const shared = await roundTrip(doc);
+    expect(shared.content.chapter2.narrative[0]).toBe('&lt;img src=x onerror=alert(1)&gt; &lt;script&gt;');
+  });
+});
+
+describe('anonymizeDocumentary', () => {
+  it('replaces the name fields and whole-word mentions only', () => {
+    const doc = makeDocumentary({
+      chapter1: { narrative: ['Al, your Album of the year: Al&amp;Co'], verdict: 'Al never skipped.' },
+    });
+    doc.uiData.userName = 'Al';
+    doc.script.userName = 'Al';
+    doc.script.summary.headline = 'Always Al.';
+    const anonymous = anonymizeDocumentary(doc);
+    expect(anonymous.uiData.userName).toBe('A Listener');
+    expect(anonymous.script.userName).toBe('A Listener');
+    expect(anonymous.script.summary.headline).toBe('Always A Listener.');
+    expect(anonymous.content.chapter1.narrative[0]).toBe('A Listener, your Album of the year: A Listener&amp;Co');
+    expect(anonymous.content.chapter1.verdict).toBe('A Listener never skipped.');
+    expect(anonymous.tone).toBe('brutal');
+  });
+
+  // A raw replace over the serialized payload rewrote these and broke the link
+  it.each(['brutal', 'title', 'rank'])('keeps a valid payload for the name "%s"', async name => {
+    const doc = makeDocumentary();
+    const shared = await roundTrip(anonymizeDocumentary({ ...doc, uiData: { ...doc.uiData, userName: name } }));
+    expect(shared.tone).toBe('brutal');
+    expect(shared.uiData.userName).toBe('A Listener');
+    expect(shared.uiData.topArtists[0]).toEqual(doc.uiData.topArtists[0]);
+  });
+
+  it('matches names the templates escaped', () => {
+    const doc = makeDocumentary({ chapter3: { narrative: ['Tom &amp; Jerry, at 3am.'], verdict: 'Tom & Jerry slept.' } });
+    const anonymous = anonymizeDocumentary({ ...doc, uiData: { ...doc.uiData, userName: 'Tom & Jerry' } });
+    expect(anonymous.content.chapter3.narrative[0]).toBe('A Listener, at 3am.');
+    expect(anonymous.content.chapter3.verdict).toBe('A Listener slept.');
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * share-link.ts
+ *
+ * Serializes a rendered documentary (UI data, script, narrative copy and
+ * tone) into a URL fragment: JSON → deflate-raw → base64url. The fragment
+ * never reaches a server, so a recipient's browser can rebuild the
+ * documentary read-only without a backend or any Spotify calls.
+ *
+ * Fragments are versioned (`#share=<version>.<payload>`) so links made
+ * today keep decoding after the payload shape changes.
+ */
+
+import { z } from 'zod';
+import type { UIData } from '@/lib/spotify/transformer';
+import type { ToneContent, ToneMode } from '@/lib/narrative/toneData';
+import type { DataPoint, DocumentaryScript } from '@/types/spotify-analysis';
+import { escapeHtml } from '@/lib/narrative/templates';
+import { docPath } from '@/lib/routing/router';
+
+export const SHARE_VERSION = 1;
+const FRAGMENT_KEY = 'share';
+const ANONYMOUS_NAME = 'A Listener';
+
+export interface SharedDocumentary {
+  tone: ToneMode;
+  uiData: UIData;
+  script: DocumentaryScript;
+  content: ToneContent;
+}
+
+// ─── Schema ───────────────────────────────────────────────────────────────────
+
+// A shared link is untrusted input; everything is validated before render
+
+const cardSchema = z.object({ rank: z.string(), title: z.string(), subtitle: z.string(), barWidth: z.string() });
+const barSchema = z.object({ label: z.string(), height: z.number() });
+const dataPointSchema = z.object({
+  label: z.string(),
+  value: z.string(),
+  subtext: z.string().optional(),
+  trend: z.enum(['up', 'down', 'neutral']).optional(),
+});
+const toneChapterSchema = z.object({ narrative: z.array(z.string()), verdict: z.string() });
+
+const sharedDocumentarySchema = z.object({
+  tone: z.enum(['brutal', 'poetic', 'analytical', 'motivational']),
+  uiData: z.object({
+    userName: z.string(),
+    totalMinutes: z.number(),
+    isProjected: z.boolean(),
+    daysOfData: z.number(),
+    totalSongs: z.number(),
+    topArtists: z.array(cardSchema),
+    genreDistribution: z.array(barSchema),
+    emotionalStats: z.array(z.object({ value: z.string(), label: z.string(), pct: z.string() })),
+    loopedTracks: z.array(cardSchema),
+    identityDrift: z.array(barSchema),
+    emotionalArc: z.array(z.object({
+      date: z.string(),
+      valence: z.number(),
+      energy: z.number(),
+      tempo: z.number(),
+      isCopingCluster: z.boolean().optional(),
+    })),
+  }),
+  script: z.object({
+    chapters: z.array(z.object({
+      id: z.string(),
+      type: z.enum(['identity', 'emotional', 'nocturnal', 'phases', 'summary']),
+      title: z.string(),
+      subtitle: z.string(),
+      narrative: z.string(),
+      confrontation: z.string(),
+      dataPoints: z.array(dataPointSchema),
+      visualCue: z.object({ type: z.enum(['graph', 'chart', 'timeline', 'particles']) }),
+      duration: z.number(),
+    })),
+    summary: z.object({
+      headline: z.string(),
+      subheadline: z.string(),
+      keyInsight: z.string(),
+      confrontation: z.string(),
+      closingThought: z.string(),
+      stats: z.array(dataPointSchema),
+    }),
+    totalDuration: z.number(),
+    userName: z.string(),
+    generatedAt: z.string(),
+  }),
+  content: z.object({
+    chapter1: toneChapterSchema,
+    chapter2: toneChapterSchema,
+    chapter3: toneChapterSchema,
+    chapter4: toneChapterSchema,
+    final: z.object({ headline: z.string(), body: z.string() }),
+  }),
+});
+
+// ─── Encoding ─────────────────────────────────────────────────────────────────
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+// The templates already escaped names ("r&amp;b"); decoding first keeps
+// them from being escaped twice
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:(amp|lt|gt|quot|apos)|#(\d+)|#x([0-9a-f]+));/gi, (entity, name, dec, hex) => {
+    if (name) return NAMED_ENTITIES[name.toLowerCase()];
+    const code = dec ? Number(dec) : parseInt(hex, 16);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+// Chapter paragraphs and the final headline are rendered as HTML. Escape
+// everything, then let back only the markup the narrative templates emit.
+function sanitizeMarkup(html: string): string {
+  return decodeEntities(html)
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+    .replace(/&lt;(br|\/span|span class="hl(?:-red|-amber)?")&gt;/g, '<$1>');
+}
+
+// Verdicts and the final body are rendered as text, so they only need
+// decoding (links made before they were kept as plain text carry entities)
+function sanitizeContent(content: ToneContent): ToneContent {
+  const chapter = (c: ToneContent['chapter1']) => ({
+    narrative: c.narrative.map(sanitizeMarkup),
+    verdict: decodeEntities(c.verdict),
+  });
+  return {
+    chapter1: chapter(content.chapter1),
+    chapter2: chapter(content.chapter2),
+    chapter3: chapter(content.chapter3),
+    chapter4: chapter(content.chapter4),
+    final: { headline: sanitizeMarkup(content.final.headline), body: decodeEntities(content.final.body) },
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+// Replaces the user's name in the name fields, and as a whole word in the
+// script and copy — raw, or escaped as the templates write it — so a short
+// name like "Al" leaves "Album" alone
+export function anonymizeDocumentary(doc: SharedDocumentary): SharedDocumentary {
+  const name = doc.uiData.userName.trim();
+  if (!name || name === ANONYMOUS_NAME) return doc;
+  const spellings = [...new Set([name, escapeHtml(name)])].map(escapeRegExp).join('|');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${spellings})(?![\\p{L}\\p{N}_])`, 'gu');
+  const text = (value: string) => value.replace(pattern, ANONYMOUS_NAME);
+  const points = (list: DataPoint[]) => list.map(p => ({
+    ...p,
+    label: text(p.label),
+    value: text(p.value),
+    ...(p.subtext === undefined ? {} : { subtext: text(p.subtext) }),
+  }));
+  const copy = (c: ToneContent['chapter1']) => ({ narrative: c.narrative.map(text), verdict: text(c.verdict) });
+  const { script, content } = doc;
+  const { summary } = script;
+
+  return {
+    ...doc,
+    uiData: { ...doc.uiData, userName: ANONYMOUS_NAME },
+    script: {
+      ...script,
+      userName: ANONYMOUS_NAME,
+      chapters: script.chapters.map(c => ({
+        ...c,
+        title: text(c.title),
+        subtitle: text(c.subtitle),
+        narrative: text(c.narrative),
+        confrontation: text(c.confrontation),
+        dataPoints: points(c.dataPoints),
+      })),
+      summary: {
+        ...summary,
+        headline: text(summary.headline),
+        subheadline: text(summary.subheadline),
+        keyInsight: text(summary.keyInsight),
+        confrontation: text(summary.confrontation),
+        closingThought: text(summary.closingThought),
+        stats: points(summary.stats),
+      },
+    },
+    content: {
+      chapter1: copy(content.chapter1),
+      chapter2: copy(content.chapter2),
+      chapter3: copy(content.chapter3),
+      chapter4: copy(content.chapter4),
+      final: { headline: text(content.final.headline), body: text(content.final.body) },
+    },
+  };
+}
+
+export async function createShareUrl(doc: SharedDocumentary, options: { anonymize?: boolean } = {}): Promise<string> {
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error('This browser cannot create share links');
+  }
+  const source = options.anonymize ? anonymizeDocumentary(doc) : doc;
+  // The visual cue payload is never rendered and can be large
+  const payload: SharedDocumentary = {
+    ...source,
+    script: {
+      ...source.script,
+      chapters: source.script.chapters.map(c => ({ ...c, visualCue: { type: c.visualCue.type } })),
+    },
+  };
+  // Catches a payload the recipient would refuse, before it becomes a link
+  if (!sharedDocumentarySchema.safeParse(payload).success) {
+    throw new Error('This documentary could not be packed into a share link');
+  }
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await pipeBytes(json, new CompressionStream('deflate-raw'));
+  const url = new URL(window.location.href);
+  url.pathname = docPath('shared');
+  url.search = '';
+  url.hash = `${FRAGMENT_KEY}=${SHARE_VERSION}.${toBase64Url(compressed)}`;
+  return url.toString();
+}
+
+export function hasSharedDocumentary(hash: string = window.location.hash): boolean {
+  return hash.startsWith(`#${FRAGMENT_KEY}=`);
+}
+
+export async function readSharedDocumentary(hash: string = window.location.hash): Promise<SharedDocumentary> {
+  // The scroll spy may have appended the chapter being read (&3)
+  const match = hash.match(new RegExp(`^#${FRAGMENT_KEY}=(\\d+)\\.([A-Za-z0-9_-]+)(?:&|$)`));
+  if (!match) throw new Error('This share link is malformed');
+  const version = Number(match[1]);
+  if (version > SHARE_VERSION) {
+    throw new Error('This share link was made by a newer version of Frequencies — reload to update');
+  }
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot open share links');
+  }
+
+  let raw: unknown;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(match[2]), new DecompressionStream('deflate-raw'));
+    raw = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('This share link is corrupted or was cut off when it was copied');
+  }
+  const parsed = sharedDocumentarySchema.safeParse(raw);
+  if (!parsed.success) throw new Error('This share link does not contain a valid documentary');
+
+  return { ...parsed.data, content: sanitizeContent(parsed.data.content) };
+}
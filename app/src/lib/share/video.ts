@@ -0,0 +1,385 @@
+/**
+ * video.ts
+ *
+ * Renders the documentary to a vertical WebM clip, entirely in the browser.
+ * Every frame is drawn to a canvas from the film timeline (chapter lengths
+ * come from `Chapter.duration`), including the valence wave drawing itself
+ * in and text revealing line by line, and recorded with MediaRecorder.
+ *
+ * MediaRecorder stamps frames with wall-clock time, so frames are paced in
+ * real time: a two-minute documentary takes about two minutes to render.
+ * WebCodecs could encode faster, but would need a WebM muxer dependency.
+ */
+
+import type { DocumentaryScript } from '@/types/spotify-analysis';
+import type { UIData } from '@/lib/spotify/transformer';
+import type { ToneContent } from '@/lib/narrative/toneData';
+import { buildFilmTimeline, filmDuration, segmentAt, type FilmSegment } from '@/lib/narrative/film-timeline';
+import { downloadBlob } from '@/lib/share/download';
+import {
+  COLORS, FONTS, drawGrain, drawSpaced, ensureFonts, stripTags, wrapText,
+} from '@/lib/share/canvas';
+
+export interface VideoSource {
+  script: DocumentaryScript;
+  uiData: UIData;
+  content: ToneContent;
+  archetype: string;
+}
+
+export interface VideoRenderOptions {
+  // 0-1, called once per frame
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export const VIDEO_SIZE = { width: 1080, height: 1920 };
+const FPS = 30;
+const VIDEO_BITS_PER_SECOND = 6_000_000;
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const MARGIN = 90;
+const CONTENT_WIDTH = VIDEO_SIZE.width - MARGIN * 2;
+// Cross-fade at both ends of every section
+const FADE_SECONDS = 0.6;
+const MAX_NARRATIVE_LINES = 12;
+
+type Ctx = CanvasRenderingContext2D;
+
+// ─── Timing helpers ───────────────────────────────────────────────────────────
+
+// 0-1 progress of an effect starting `delay` seconds into a section
+function reveal(local: number, delay: number, duration: number): number {
+  return Math.min(Math.max((local - delay) / duration, 0), 1);
+}
+
+function easeOut(t: number): number {
+  return 1 - Math.pow(1 - t, 3);
+}
+
+function withAlpha(ctx: Ctx, alpha: number, draw: () => void) {
+  if (alpha <= 0) return;
+  const previous = ctx.globalAlpha;
+  ctx.globalAlpha = previous * alpha;
+  draw();
+  ctx.globalAlpha = previous;
+}
+
+// ─── Scene pieces ─────────────────────────────────────────────────────────────
+
+function drawLabel(ctx: Ctx, text: string, y: number, color = COLORS.steel) {
+  ctx.fillStyle = color;
+  ctx.font = `400 22px ${FONTS.mono}`;
+  drawSpaced(ctx, text.toUpperCase(), MARGIN, y, 6);
+}
+
+// Wrapped italic heading; returns the y below its last line
+function drawHeading(ctx: Ctx, text: string, y: number, size: number, maxLines: number): number {
+  ctx.fillStyle = COLORS.offWhite;
+  ctx.font = `italic 700 ${size}px ${FONTS.display}`;
+  wrapText(ctx, stripTags(text), CONTENT_WIDTH).slice(0, maxLines).forEach(line => {
+    ctx.fillText(line, MARGIN, y);
+    y += size * 1.15;
+  });
+  return y;
+}
+
+// Paragraphs revealed line by line from `delay`, one line every `pace` seconds
+function drawRevealedText(
+  ctx: Ctx, paragraphs: string[], y: number, local: number, delay: number, pace: number,
+  maxLines = MAX_NARRATIVE_LINES
+): number {
+  ctx.font = `400 34px ${FONTS.display}`;
+  const lines = paragraphs.flatMap((p, i) => [
+    ...(i > 0 ? [''] : []),
+    ...wrapText(ctx, stripTags(p), CONTENT_WIDTH),
+  ]).slice(0, maxLines);
+  lines.forEach((line, i) => {
+    const t = reveal(local, delay + i * pace, 0.4);
+    withAlpha(ctx, t, () => {
+      ctx.fillStyle = COLORS.cream;
+      ctx.fillText(line, MARGIN, y + (1 - t) * 12);
+    });
+    y += 48;
+  });
+  return y;
+}
+
+function drawBars(ctx: Ctx, bars: { label: string; height: number }[], top: number, height: number, growth: number) {
+  if (bars.length === 0) return;
+  const slot = CONTENT_WIDTH / bars.length;
+  const barWidth = slot * 0.6;
+  const maxHeight = Math.max(...bars.map(b => b.height), 1);
+  bars.forEach((bar, i) => {
+    const x = MARGIN + i * slot + (slot - barWidth) / 2;
+    const h = (bar.height / maxHeight) * height * growth;
+    ctx.fillStyle = i === 0 ? COLORS.red : COLORS.steel;
+    ctx.fillRect(x, top + height - h, barWidth, h);
+    ctx.fillStyle = COLORS.steel;
+    ctx.font = `400 16px ${FONTS.mono}`;
+    const label = bar.label.toUpperCase().slice(0, 8);
+    ctx.fillText(label, x + (barWidth - ctx.measureText(label).width) / 2, top + height + 32);
+  });
+}
+
+// Mirrors EmotionalWave: the same bezier smoothing, drawn left to right
+function drawValenceWave(ctx: Ctx, values: number[], top: number, height: number, progress: number) {
+  ctx.strokeStyle = COLORS.dim;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([8, 10]);
+  ctx.beginPath();
+  ctx.moveTo(MARGIN, top + height / 2);
+  ctx.lineTo(MARGIN + CONTENT_WIDTH, top + height / 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  if (values.length < 2 || progress <= 0) return;
+
+  const coords = values.map((v, i) => ({
+    x: MARGIN + (i / (values.length - 1)) * CONTENT_WIDTH,
+    y: top + (1 - Math.min(Math.max(v, 0), 1)) * height,
+  }));
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(MARGIN - 10, top - 20, (CONTENT_WIDTH + 20) * progress, height + 40);
+  ctx.clip();
+  ctx.strokeStyle = COLORS.red;
+  ctx.lineWidth = 4;
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  coords.forEach((pt, i) => {
+    if (i === 0) { ctx.moveTo(pt.x, pt.y); return; }
+    const prev = coords[i - 1];
+    const dx = (pt.x - prev.x) / 2.8;
+    ctx.bezierCurveTo(prev.x + dx, prev.y, pt.x - dx, pt.y, pt.x, pt.y);
+  });
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawCards(ctx: Ctx, cards: UIData['loopedTracks'], top: number, local: number, delay: number) {
+  cards.slice(0, 3).forEach((card, i) => {
+    const t = easeOut(reveal(local, delay + i * 0.3, 0.6));
+    const y = top + i * 130;
+    withAlpha(ctx, t, () => {
+      const x = MARGIN + (1 - t) * 80;
+      ctx.strokeStyle = COLORS.dim;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, CONTENT_WIDTH, 110);
+      ctx.fillStyle = COLORS.offWhite;
+      ctx.font = `italic 700 36px ${FONTS.display}`;
+      ctx.fillText(wrapText(ctx, card.title, CONTENT_WIDTH - 60)[0] ?? '', x + 30, y + 50);
+      ctx.fillStyle = COLORS.steel;
+      ctx.font = `400 18px ${FONTS.mono}`;
+      ctx.fillText(card.subtitle, x + 30, y + 86);
+    });
+  });
+}
+
+function drawStatsGrid(ctx: Ctx, stats: { label: string; value: string }[], top: number, local: number, delay: number) {
+  const cellWidth = CONTENT_WIDTH / 2;
+  stats.slice(0, 4).forEach((stat, i) => {
+    const t = easeOut(reveal(local, delay + i * 0.25, 0.5));
+    const x = MARGIN + (i % 2) * cellWidth;
+    const y = top + Math.floor(i / 2) * 220;
+    withAlpha(ctx, t, () => {
+      ctx.strokeStyle = COLORS.dim;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, cellWidth - 16, 200);
+      ctx.fillStyle = COLORS.offWhite;
+      ctx.font = `400 96px ${FONTS.stat}`;
+      ctx.fillText(stat.value, x + 28, y + 110);
+      ctx.fillStyle = COLORS.steel;
+      ctx.font = `400 18px ${FONTS.mono}`;
+      drawSpaced(ctx, stat.label.toUpperCase(), x + 28, y + 160, 2);
+    });
+  });
+}
+
+// ─── Sections ─────────────────────────────────────────────────────────────────
+
+function drawHero(ctx: Ctx, source: VideoSource, local: number) {
+  const { uiData, archetype } = source;
+  drawLabel(ctx, '● Your 2025 in Music · Presented as Documentary', 300, COLORS.red);
+
+  const minutes = Math.round(uiData.totalMinutes * easeOut(reveal(local, 0.3, 2.5)));
+  ctx.fillStyle = COLORS.offWhite;
+  ctx.font = `400 260px ${FONTS.stat}`;
+  const text = minutes.toLocaleString();
+  ctx.fillText(text, (VIDEO_SIZE.width - ctx.measureText(text).width) / 2, 900);
+  ctx.fillStyle = COLORS.steel;
+  ctx.font = `400 24px ${FONTS.mono}`;
+  const label = uiData.isProjected ? 'MINUTES CONSUMED · PROJECTED' : 'MINUTES CONSUMED';
+  ctx.fillText(label, (VIDEO_SIZE.width - ctx.measureText(label).width) / 2, 980);
+
+  withAlpha(ctx, reveal(local, 2.2, 0.8), () => {
+    drawHeading(ctx, uiData.userName, 1250, 80, 2);
+    drawLabel(ctx, `${uiData.totalSongs.toLocaleString()} songs · Archetype: ${archetype}`, 1380);
+  });
+}
+
+function drawChapter(ctx: Ctx, source: VideoSource, index: number, local: number, duration: number) {
+  const { script, uiData, content } = source;
+  const copy = [content.chapter1, content.chapter2, content.chapter3, content.chapter4][index];
+  const chapter = script.chapters[index];
+  drawLabel(ctx, `Chapter ${['One', 'Two', 'Three', 'Four'][index]}`, 240, COLORS.red);
+
+  let y = 340;
+  withAlpha(ctx, reveal(local, 0.2, 0.8), () => {
+    y = drawHeading(ctx, chapter?.title ?? '', y, 72, 3);
+  });
+  drawRevealedText(ctx, copy.narrative, y + 40, local, 1.2, 0.35);
+
+  const visualTop = 1300;
+  const grow = easeOut(reveal(local, 1.5, 1.5));
+  switch (index) {
+    case 0:
+      drawBars(ctx, uiData.genreDistribution, visualTop, 260, grow);
+      break;
+    case 1:
+      drawLabel(ctx, 'Emotional volatility index', visualTop - 20);
+      drawValenceWave(ctx, uiData.emotionalArc.map(p => p.valence), visualTop + 40, 240, reveal(local, 1.5, 2.4));
+      break;
+    case 2:
+      drawCards(ctx, uiData.loopedTracks, visualTop - 40, local, 1.5);
+      break;
+    case 3:
+      drawBars(ctx, uiData.identityDrift, visualTop, 260, grow);
+      break;
+  }
+
+  // The verdict lands in the last stretch of the chapter
+  withAlpha(ctx, reveal(local, duration * 0.6, 0.8), () => {
+    ctx.fillStyle = COLORS.red;
+    ctx.fillRect(MARGIN, 1680, 4, 120);
+    ctx.fillStyle = COLORS.offWhite;
+    ctx.font = `italic 400 32px ${FONTS.display}`;
+    wrapText(ctx, stripTags(copy.verdict), CONTENT_WIDTH - 30).slice(0, 3).forEach((line, i) => {
+      ctx.fillText(line, MARGIN + 30, 1715 + i * 42);
+    });
+  });
+}
+
+function drawSummary(ctx: Ctx, source: VideoSource, local: number) {
+  const { summary } = source.script;
+  drawLabel(ctx, 'The Brutally Honest Summary', 240, COLORS.red);
+  let y = 340;
+  withAlpha(ctx, reveal(local, 0.2, 0.8), () => {
+    y = drawHeading(ctx, summary.headline, y, 80, 3);
+  });
+  withAlpha(ctx, reveal(local, 0.8, 0.8), () => {
+    ctx.fillStyle = COLORS.steel;
+    ctx.font = `italic 400 34px ${FONTS.display}`;
+    wrapText(ctx, summary.subheadline, CONTENT_WIDTH).slice(0, 2).forEach((line, i) => {
+      ctx.fillText(line, MARGIN, y + 20 + i * 44);
+    });
+  });
+  drawStatsGrid(ctx, summary.stats, 900, local, 1.5);
+}
+
+function drawVerdict(ctx: Ctx, source: VideoSource, local: number) {
+  const { content, archetype } = source;
+  drawLabel(ctx, 'Final Chapter · The Verdict', 400);
+  let y = 540;
+  withAlpha(ctx, reveal(local, 0.3, 1), () => {
+    y = drawHeading(ctx, content.final.headline, y, 96, 4);
+  });
+  drawRevealedText(ctx, [content.final.body], y + 40, local, 1.5, 0.3, 8);
+
+  withAlpha(ctx, easeOut(reveal(local, 3, 0.8)), () => {
+    ctx.font = `400 56px ${FONTS.stat}`;
+    const badge = `ARCHETYPE: ${archetype.toUpperCase()}`;
+    const width = ctx.measureText(badge).width + 80;
+    ctx.strokeStyle = COLORS.red;
+    ctx.lineWidth = 3;
+    ctx.strokeRect(MARGIN, 1500, width, 110);
+    ctx.fillStyle = COLORS.offWhite;
+    ctx.fillText(badge, MARGIN + 40, 1575);
+  });
+}
+
+function drawFrame(ctx: Ctx, source: VideoSource, timeline: FilmSegment[], time: number) {
+  const { width, height } = VIDEO_SIZE;
+  ctx.fillStyle = COLORS.black;
+  ctx.fillRect(0, 0, width, height);
+  drawGrain(ctx, width, height);
+  ctx.textBaseline = 'alphabetic';
+
+  const segment = timeline[segmentAt(timeline, time)];
+  if (segment) {
+    const local = time - segment.start;
+    const fade = Math.min(1, local / FADE_SECONDS, (segment.duration - local) / FADE_SECONDS);
+    withAlpha(ctx, Math.max(fade, 0), () => {
+      if (segment.sectionId === 'hero') drawHero(ctx, source, local);
+      else if (segment.sectionId === 'summary') drawSummary(ctx, source, local);
+      else if (segment.sectionId === 'ch5') drawVerdict(ctx, source, local);
+      else drawChapter(ctx, source, Number(segment.sectionId.slice(2)) - 1, local, segment.duration);
+    });
+  }
+
+  ctx.fillStyle = COLORS.steel;
+  ctx.font = `400 30px ${FONTS.stat}`;
+  drawSpaced(ctx, 'FREQUENCIES', MARGIN, height - 80, 6);
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+function pickMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export function isVideoExportSupported(): boolean {
+  return pickMimeType() !== null && 'captureStream' in HTMLCanvasElement.prototype;
+}
+
+export function documentaryVideoDuration(script: DocumentaryScript): number {
+  return filmDuration(buildFilmTimeline(script));
+}
+
+export async function renderDocumentaryVideo(source: VideoSource, options: VideoRenderOptions = {}): Promise<Blob> {
+  const mimeType = pickMimeType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video');
+  await ensureFonts();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = VIDEO_SIZE.width;
+  canvas.height = VIDEO_SIZE.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not supported in this browser');
+
+  const timeline = buildFilmTimeline(source.script);
+  const frames = Math.ceil(filmDuration(timeline) * FPS);
+  // Frame rate 0: a frame is captured only when requestFrame() is called
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  drawFrame(ctx, source, timeline, 0);
+  recorder.start(1000);
+  const startedAt = performance.now();
+  try {
+    for (let i = 0; i < frames; i++) {
+      if (options.signal?.aborted) throw new Error('Video export cancelled');
+      drawFrame(ctx, source, timeline, i / FPS);
+      track.requestFrame();
+      options.onProgress?.(i / frames);
+      const wait = startedAt + ((i + 1) * 1000) / FPS - performance.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(t => t.stop());
+  }
+
+  options.onProgress?.(1);
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+export async function downloadDocumentaryVideo(source: VideoSource, options: VideoRenderOptions = {}): Promise<void> {
+  const blob = await renderDocumentaryVideo(source, options);
+  downloadBlob(blob, 'frequencies-documentary.webm');
+}
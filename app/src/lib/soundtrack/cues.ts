@@ -0,0 +1,82 @@
+/**
+ * cues.ts
+ *
+ * Picks the soundtrack for each documentary section: the track that best
+ * represents the chapter and still has a 30-second `preview_url`. Spotify
+ * returns no preview for many tracks (and for newer apps, none at all), so
+ * each section ranks several candidates and falls back to silence.
+ */
+
+import type { ListeningProfile, SpotifyTrack } from '@/types/spotify-analysis';
+import type { ComprehensiveSpotifyData } from '@/lib/spotify/transformer';
+import { selectDriftPeriods } from '@/lib/analytics/identity-profile';
+
+export interface SoundtrackCue {
+  trackId: string;
+  trackName: string;
+  artistName: string;
+  previewUrl: string;
+}
+
+// Keyed by section id, as used by the scroll spy
+export type Soundtrack = Record<string, SoundtrackCue | null>;
+
+function toCue(track: SpotifyTrack): SoundtrackCue | null {
+  if (!track.preview_url) return null;
+  return {
+    trackId: track.id,
+    trackName: track.name,
+    artistName: track.artists[0]?.name ?? 'Unknown Artist',
+    previewUrl: track.preview_url,
+  };
+}
+
+export function selectSoundtrack(profile: ListeningProfile, data: ComprehensiveSpotifyData): Soundtrack {
+  const { topTracks, recentlyPlayed, audioFeatures } = data;
+  const tracksById = new Map<string, SpotifyTrack>();
+  [...recentlyPlayed.map(p => p.track), ...topTracks].forEach(t => tracksById.set(t.id, t));
+  const valenceOf = (t: SpotifyTrack) => audioFeatures.get(t.id)?.valence;
+  const withValence = topTracks.filter(t => valenceOf(t) !== undefined);
+
+  // Chapter 1: the top artist's biggest track
+  const topArtistId = profile.identity.topArtists[0]?.id;
+  const identity = topTracks.filter(t => t.artists.some(a => a.id === topArtistId));
+
+  // Chapter 2: the track whose mood sits closest to the year's average
+  const average = profile.emotional.averageValence;
+  const emotional = [...withValence].sort(
+    (a, b) => Math.abs(valenceOf(a)! - average) - Math.abs(valenceOf(b)! - average)
+  );
+
+  // Chapter 3: the lowest-valence loop, then the saddest top tracks
+  const loops = [...profile.behavioral.obsessionLoops]
+    .sort((a, b) => a.timeRange.valence - b.timeRange.valence)
+    .map(e => tracksById.get(e.trackId))
+    .filter((t): t is SpotifyTrack => t !== undefined);
+  const saddest = [...withValence].sort((a, b) => valenceOf(a)! - valenceOf(b)!);
+
+  // Chapter 4: what the most recent phase sounded like
+  const periods = selectDriftPeriods(profile.temporal);
+  const latestPhase = periods[periods.length - 1]?.topTracks ?? [];
+
+  const candidates: [string, SpotifyTrack[]][] = [
+    ['ch1', [...identity, ...topTracks]],
+    ['ch2', emotional],
+    ['ch3', [...loops, ...saddest]],
+    ['ch4', [...latestPhase, ...topTracks.slice().reverse()]],
+    ['ch5', topTracks],
+  ];
+
+  // Prefer a different track per chapter, but reuse one over going silent
+  const used = new Set<string>();
+  return Object.fromEntries(candidates.map(([sectionId, tracks]) => {
+    const playable = tracks.filter(t => t.preview_url);
+    const track = playable.find(t => !used.has(t.id)) ?? playable[0];
+    if (track) used.add(track.id);
+    return [sectionId, track ? toCue(track) : null];
+  }));
+}
+
+export function hasSoundtrack(soundtrack: Soundtrack): boolean {
+  return Object.values(soundtrack).some(cue => cue !== null);
+}
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSoundtrackPlayer } from '@/lib/soundtrack/player';
+import type { SoundtrackCue } from '@/lib/soundtrack/cues';
+
+// An <audio> stand-in whose play() stays pending until the test resolves it
+class FakeAudio {
+  static created: FakeAudio[] = [];
+  loop = false;
+  volume = 1;
+  paused = true;
+  src: string | null;
+  resolvePlay = () => {};
+
+  constructor(src: string) {
+    this.src = src;
+    FakeAudio.created.push(this);
+  }
+
+  play(): Promise<void> {
+    return new Promise(resolve => {
+      this.resolvePlay = () => { this.paused = false; resolve(); };
+    });
+  }
+
+  pause() { this.paused = true; }
+  removeAttribute(name: string) { if (name === 'src') this.src = null; }
+}
+
+let frames = new Map<number, FrameRequestCallback>();
+let frameId = 0;
+
+// Runs queued animation frames as if the crossfade had finished
+function finishFades() {
+  for (let i = 0; i < 10 && frames.size > 0; i++) {
+    const pending = frames;
+    frames = new Map();
+    pending.forEach(callback => callback(performance.now() + 10_000));
+  }
+}
+
+function cue(previewUrl: string): SoundtrackCue {
+  return { trackId: previewUrl, trackName: previewUrl, artistName: 'Artist', previewUrl };
+}
+
+describe('createSoundtrackPlayer', () => {
+  beforeEach(() => {
+    FakeAudio.created = [];
+    frames = new Map();
+    vi.stubGlobal('Audio', FakeAudio);
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      frames.set(++frameId, callback);
+      return frameId;
+    });
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => { frames.delete(id); });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fades a started cue in', async () => {
+    const player = createSoundtrackPlayer();
+    player.play(cue('a'));
+    player.setMuted(false);
+    const [audio] = FakeAudio.created;
+    audio.resolvePlay();
+    await Promise.resolve();
+    finishFades();
+    expect(audio.volume).toBe(0.6);
+    expect(audio.paused).toBe(false);
+  });
+
+  it('stops a cue that finishes starting after the chapter changed', async () => {
+    const player = createSoundtrackPlayer();
+    player.setMuted(false);
+    player.play(cue('a'));
+    player.play(cue('b'));
+    const [first] = FakeAudio.created;
+    first.resolvePlay();
+    await Promise.resolve();
+    finishFades();
+    expect(first.paused).toBe(true);
+    expect(first.src).toBeNull();
+    expect(first.volume).toBe(0);
+  });
+
+  it('stops a cue that finishes starting after being muted', async () => {
+    const player = createSoundtrackPlayer();
+    player.setMuted(false);
+    player.play(cue('a'));
+    player.setMuted(true);
+    const [audio] = FakeAudio.created;
+    audio.resolvePlay();
+    await Promise.resolve();
+    expect(audio.paused).toBe(true);
+    expect(audio.src).toBeNull();
+  });
+
+  it('silences cues that are still fading out on dispose', async () => {
+    const player = createSoundtrackPlayer();
+    player.setMuted(false);
+    player.play(cue('a'));
+    const [first] = FakeAudio.created;
+    first.resolvePlay();
+    await Promise.resolve();
+    player.play(cue('b'));
+    player.dispose();
+    expect(first.paused).toBe(true);
+    expect(FakeAudio.created[1].src).toBeNull();
+    expect(frames.size).toBe(0);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * player.ts
+ *
+ * Plays soundtrack cues with crossfades. One looping <audio> element per
+ * cue; switching cues fades the outgoing one out while the new one fades in.
+ * Starts muted — browsers only allow audio after a user gesture, so the
+ * header's unmute click is what starts playback.
+ */
+
+import type { SoundtrackCue } from '@/lib/soundtrack/cues';
+
+export interface SoundtrackPlayer {
+  // Switch to this cue (null: fade to silence); remembered while muted
+  play(cue: SoundtrackCue | null): void;
+  setMuted(muted: boolean): void;
+  isMuted(): boolean;
+  dispose(): void;
+}
+
+const CROSSFADE_MS = 1500;
+const VOLUME = 0.6;
+
+export function createSoundtrackPlayer(): SoundtrackPlayer {
+  let muted = true;
+  let wanted: SoundtrackCue | null = null;
+  let current: { cue: SoundtrackCue; audio: HTMLAudioElement } | null = null;
+  // One running fade per element; a new fade replaces it
+  const fades = new WeakMap<HTMLAudioElement, number>();
+  // Outgoing cues still fading, so dispose() can silence them too
+  const fadingOut = new Set<HTMLAudioElement>();
+
+  function fade(audio: HTMLAudioElement, to: number, onDone?: () => void) {
+    cancelAnimationFrame(fades.get(audio) ?? 0);
+    const from = audio.volume;
+    const startedAt = performance.now();
+    const step = (now: number) => {
+      const t = Math.min((now - startedAt) / CROSSFADE_MS, 1);
+      audio.volume = from + (to - from) * t;
+      if (t < 1) fades.set(audio, requestAnimationFrame(step));
+      else onDone?.();
+    };
+    fades.set(audio, requestAnimationFrame(step));
+  }
+
+  function stop(audio: HTMLAudioElement) {
+    cancelAnimationFrame(fades.get(audio) ?? 0);
+    fadingOut.delete(audio);
+    audio.pause();
+    audio.removeAttribute('src');
+  }
+
+  function fadeOutCurrent() {
+    if (!current) return;
+    const { audio } = current;
+    fadingOut.add(audio);
+    fade(audio, 0, () => stop(audio));
+    current = null;
+  }
+
+  function start(cue: SoundtrackCue | null) {
+    if (current?.cue.previewUrl === cue?.previewUrl) return;
+    fadeOutCurrent();
+    if (!cue) return;
+
+    const audio = new Audio(cue.previewUrl);
+    audio.loop = true;
+    audio.volume = 0;
+    current = { cue, audio };
+    audio.play()
+      .then(() => {
+        // Scrolled on, muted or disposed while starting: never fade it in
+        if (current?.audio === audio && !muted) fade(audio, VOLUME);
+        else stop(audio);
+      })
+      .catch(() => {
+        // Expired preview URL or blocked autoplay: stay silent for this chapter
+        if (current?.audio === audio) current = null;
+      });
+  }
+
+  return {
+    play(cue) {
+      wanted = cue;
+      if (!muted) start(cue);
+    },
+    setMuted(next) {
+      muted = next;
+      if (muted) fadeOutCurrent();
+      else start(wanted);
+    },
+    isMuted: () => muted,
+    dispose() {
+      if (current) stop(current.audio);
+      fadingOut.forEach(stop);
+      current = null;
+    },
+  };
+}
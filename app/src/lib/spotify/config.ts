@@ -0,0 +1,294 @@
+/**
+ * config.ts
+ *
+ * Where the Spotify client ID and redirect URI come from, and how to tell
+ * when they're wrong. Each value resolves from a runtime override (saved
+ * from the setup screen, for self-hosters who can't rebuild), then the Vite
+ * env, then a default derived from the current origin.
+ *
+ * `diagnoseSpotifyConfig` runs the checks the setup screen lists, and
+ * `explainOAuthError` turns Spotify's terse OAuth error codes into what
+ * actually went wrong and how to fix it.
+ */
+
+import { z } from 'zod';
+import type { SpotifyAuthConfig } from '@/types/spotify-analysis';
+
+export const CONFIG_OVERRIDE_KEY = 'spotify_config_override';
+
+export const SPOTIFY_SCOPES = [
+  'user-top-read',
+  'user-read-recently-played',
+  'user-read-private',
+  'user-read-email',
+  // Full-track playback through the Web Playback SDK (Premium only)
+  'streaming',
+  'user-read-playback-state',
+  'user-modify-playback-state',
+];
+
+export type ConfigSource = 'override' | 'env' | 'default';
+
+export interface ResolvedSpotifyConfig extends SpotifyAuthConfig {
+  sources: { clientId: ConfigSource; redirectUri: ConfigSource };
+}
+
+export type ConfigOverride = z.infer<typeof configOverrideSchema>;
+
+export type CheckStatus = 'ok' | 'warn' | 'error';
+
+export interface ConfigCheck {
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface OAuthErrorExplanation {
+  code: string;
+  title: string;
+  explanation: string;
+  fix: string;
+}
+
+function isAbsoluteUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Blank fields mean "no override"; the setup form validates against this too
+export const configOverrideSchema = z.object({
+  clientId: z.string().trim().optional(),
+  redirectUri: z.string().trim()
+    .refine(value => !value || isAbsoluteUrl(value), 'Enter an absolute URL, like https://example.com/callback')
+    .optional(),
+});
+
+// ─── Resolution ───────────────────────────────────────────────────────────────
+
+export function loadConfigOverride(): ConfigOverride {
+  const stored = localStorage.getItem(CONFIG_OVERRIDE_KEY);
+  if (!stored) return {};
+  try {
+    const parsed = configOverrideSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+// Blank fields fall back to the env value instead of overriding it
+export function saveConfigOverride(override: ConfigOverride): void {
+  const { clientId, redirectUri } = configOverrideSchema.parse(override);
+  if (!clientId && !redirectUri) localStorage.removeItem(CONFIG_OVERRIDE_KEY);
+  else localStorage.setItem(CONFIG_OVERRIDE_KEY, JSON.stringify({ clientId: clientId || undefined, redirectUri: redirectUri || undefined }));
+}
+
+export function clearConfigOverride(): void {
+  localStorage.removeItem(CONFIG_OVERRIDE_KEY);
+}
+
+export function defaultRedirectUri(origin: string = window.location.origin): string {
+  return `${origin}/callback`;
+}
+
+export function resolveSpotifyConfig(): ResolvedSpotifyConfig {
+  const override = loadConfigOverride();
+  const envClientId = import.meta.env.VITE_SPOTIFY_CLIENT_ID?.trim();
+  const envRedirectUri = import.meta.env.VITE_SPOTIFY_REDIRECT_URI?.trim();
+
+  const [clientId, clientIdSource]: [string, ConfigSource] = override.clientId
+    ? [override.clientId, 'override']
+    : envClientId ? [envClientId, 'env'] : ['', 'default'];
+  const [redirectUri, redirectUriSource]: [string, ConfigSource] = override.redirectUri
+    ? [override.redirectUri, 'override']
+    : envRedirectUri ? [envRedirectUri, 'env'] : [defaultRedirectUri(), 'default'];
+
+  return {
+    clientId,
+    redirectUri,
+    scopes: SPOTIFY_SCOPES,
+    sources: { clientId: clientIdSource, redirectUri: redirectUriSource },
+  };
+}
+
+// ─── Diagnostics ──────────────────────────────────────────────────────────────
+
+const CLIENT_ID_PATTERN = /^[0-9a-f]{32}$/i;
+const LOOPBACK_HOSTS = ['127.0.0.1', '[::1]'];
+
+function checkClientId(clientId: string): ConfigCheck {
+  const label = 'Client ID';
+  if (!clientId) {
+    return {
+      label, status: 'error',
+      detail: 'No client ID is configured. Set VITE_SPOTIFY_CLIENT_ID in app/.env, or enter one below.',
+    };
+  }
+  if (clientId === 'your_client_id_here') {
+    return { label, status: 'error', detail: 'VITE_SPOTIFY_CLIENT_ID still holds the placeholder from .env.example.' };
+  }
+  if (!CLIENT_ID_PATTERN.test(clientId)) {
+    return {
+      label, status: 'warn',
+      detail: 'Spotify client IDs are 32 hexadecimal characters. Check that you copied the Client ID, not the secret or app name.',
+    };
+  }
+  return { label, status: 'ok', detail: `…${clientId.slice(-6)}` };
+}
+
+function checkRedirectUri(redirectUri: string, location: Location): ConfigCheck[] {
+  const label = 'Redirect URI';
+  if (!isAbsoluteUrl(redirectUri)) {
+    return [{ label, status: 'error', detail: `"${redirectUri}" is not an absolute URL.` }];
+  }
+  const url = new URL(redirectUri);
+
+  const checks: ConfigCheck[] = [];
+  if (url.origin !== location.origin) {
+    checks.push({
+      label, status: 'error',
+      detail: `Points at ${url.origin}, but the app is running on ${location.origin}. `
+        + 'Spotify would send you back to the other origin, where this tab\'s login verifier doesn\'t exist.',
+    });
+  } else if (url.pathname !== '/callback') {
+    checks.push({
+      label, status: 'error',
+      detail: `The app finishes logins on /callback, but this redirect URI points at ${url.pathname}.`,
+    });
+  } else {
+    checks.push({ label, status: 'ok', detail: redirectUri });
+  }
+
+  if (url.protocol === 'http:' && url.hostname === 'localhost') {
+    checks.push({
+      label: 'Redirect scheme', status: 'warn',
+      detail: 'Spotify no longer accepts "localhost" redirect URIs. Use http://127.0.0.1 with the same port instead.',
+    });
+  } else if (url.protocol === 'http:' && !LOOPBACK_HOSTS.includes(url.hostname)) {
+    checks.push({
+      label: 'Redirect scheme', status: 'error',
+      detail: 'Spotify only accepts plain http redirect URIs on a loopback address. Serve the app over https.',
+    });
+  }
+  return checks;
+}
+
+function checkScopes(granted: string[] | null): ConfigCheck {
+  const label = 'Scopes';
+  if (!granted) {
+    return { label, status: 'ok', detail: `Requested on login: ${SPOTIFY_SCOPES.join(', ')}` };
+  }
+  const missing = SPOTIFY_SCOPES.filter(scope => !granted.includes(scope));
+  if (missing.length > 0) {
+    return {
+      label, status: 'warn',
+      detail: `This session wasn't granted ${missing.join(', ')}. Log out and connect again to grant them.`,
+    };
+  }
+  return { label, status: 'ok', detail: 'All requested scopes were granted.' };
+}
+
+// `grantedScopes` comes from the current session, null when logged out
+export function diagnoseSpotifyConfig(
+  config: SpotifyAuthConfig,
+  grantedScopes: string[] | null,
+  location: Location = window.location
+): ConfigCheck[] {
+  const checks = [checkClientId(config.clientId), ...checkRedirectUri(config.redirectUri, location)];
+  checks.push(window.isSecureContext && crypto.subtle
+    ? { label: 'PKCE', status: 'ok', detail: 'Web Crypto is available for the PKCE challenge.' }
+    : {
+      label: 'PKCE', status: 'error',
+      detail: 'This page is not a secure context, so the PKCE challenge can\'t be computed. Use https or 127.0.0.1.',
+    });
+  checks.push(checkScopes(grantedScopes));
+  return checks;
+}
+
+export function hasBlockingIssue(checks: ConfigCheck[]): boolean {
+  return checks.some(check => check.status === 'error');
+}
+
+// ─── OAuth errors ─────────────────────────────────────────────────────────────
+
+const OAUTH_ERRORS: (Omit<OAuthErrorExplanation, 'code'> & { match: RegExp })[] = [
+  {
+    match: /access_denied/i,
+    title: 'Access was denied',
+    explanation: 'You (or Spotify) declined the permission request, so no data was shared.',
+    fix: 'Connect again and choose "Agree" on Spotify\'s consent screen.',
+  },
+  {
+    match: /invalid redirect uri|redirect_uri_mismatch/i,
+    title: 'Redirect URI not registered',
+    explanation: 'The redirect URI this app sent is not on your Spotify app\'s allowlist. It must match exactly, including scheme, port and path.',
+    fix: 'Add the redirect URI shown in setup to the Spotify dashboard under Settings → Redirect URIs.',
+  },
+  {
+    match: /invalid_client/i,
+    title: 'Unknown client ID',
+    explanation: 'Spotify doesn\'t recognise the configured client ID.',
+    fix: 'Copy the Client ID from your app in the Spotify dashboard into VITE_SPOTIFY_CLIENT_ID or the setup override.',
+  },
+  {
+    match: /invalid_grant/i,
+    title: 'The login code was rejected',
+    explanation: 'The authorization code expired, was already used, or was issued for a different redirect URI or login attempt.',
+    fix: 'Start the login again from this tab, and check that the redirect URI matches the one registered for the app.',
+  },
+  {
+    match: /code verifier not found/i,
+    title: 'Login started somewhere else',
+    explanation: 'The login was started in another tab, browser or origin, or site data was cleared mid-login, so the PKCE verifier is missing.',
+    fix: 'Start the login again from this tab, on the same origin as the redirect URI.',
+  },
+  {
+    match: /state mismatch/i,
+    title: 'Login could not be verified',
+    explanation: 'The callback didn\'t carry the state token this browser sent to Spotify. It may come from a link crafted by someone else, '
+      + 'or from an older login replaced by one started in another tab.',
+    fix: 'Start the login again from the app itself. Don\'t follow login links sent by other people.',
+  },
+  {
+    match: /login attempt expired/i,
+    title: 'Login took too long',
+    explanation: 'The login was started too long ago, so its verifier was discarded rather than exchanged late.',
+    fix: 'Connect again and finish the Spotify consent screen within a few minutes.',
+  },
+  {
+    match: /invalid_scope/i,
+    title: 'Invalid scope',
+    explanation: 'Spotify rejected one of the permissions this app requests.',
+    fix: 'Check the scopes listed in setup against Spotify\'s current scope list.',
+  },
+  {
+    match: /unauthorized_client|unsupported_response_type/i,
+    title: 'App not allowed to use this flow',
+    explanation: 'The Spotify app isn\'t set up for the authorization code with PKCE flow.',
+    fix: 'In the dashboard, enable the Web API for the app and keep the default authorization settings.',
+  },
+  {
+    match: /not registered/i,
+    title: 'Account not on the app\'s user list',
+    explanation: 'Spotify apps in Development Mode only work for accounts added under "Users and Access" in the dashboard.',
+    fix: 'Add your Spotify account\'s email under Users and Access, or request an extended quota.',
+  },
+  {
+    match: /server_error|temporarily_unavailable/i,
+    title: 'Spotify had a problem',
+    explanation: 'Spotify\'s accounts service failed or is temporarily unavailable.',
+    fix: 'Wait a minute and connect again.',
+  },
+];
+
+// Accepts an `error` query param or the text of a failed token exchange
+export function explainOAuthError(message: string): OAuthErrorExplanation | null {
+  const known = OAUTH_ERRORS.find(entry => entry.match.test(message));
+  if (!known) return null;
+  const { title, explanation, fix } = known;
+  return { code: message.match(known.match)?.[0] ?? message, title, explanation, fix };
+}
@@ -0,0 +1,142 @@
+/**
+ * mock-auth.ts
+ *
+ * A local stand-in for Spotify's accounts service, so the PKCE login in
+ * service.ts — state, verifier, code exchange and refresh — can be exercised
+ * without a registered app or network access:
+ *
+ *   const server = createMockAuthServer({ clientId, redirectUri });
+ *   const service = createSpotifyService(server);
+ *   const callback = server.authorize(await service.createAuthorizeUrl());
+ *   await service.handleCallback(callback.searchParams.get('code')!, callback.searchParams.get('state'));
+ *
+ * `authorize` plays the consent screen and returns the redirect Spotify
+ * would send the browser to; `fetch` answers the token endpoint with the
+ * same checks and error bodies as the real one. Codes are single use and
+ * expire like Spotify's.
+ */
+
+import { generateCodeChallenge, type SpotifyEndpoints } from '@/lib/spotify/service';
+import type { SpotifyTokens } from '@/types/spotify-analysis';
+
+const MOCK_ORIGIN = 'https://accounts.mock.test';
+
+export type MockConsent = 'agree' | 'deny';
+
+export interface MockAuthServerOptions {
+  clientId: string;
+  redirectUri: string;
+  // How long an authorization code stays exchangeable
+  codeTtlMs?: number;
+  now?: () => number;
+}
+
+export interface MockAuthServer {
+  endpoints: Partial<SpotifyEndpoints>;
+  authorize(authorizeUrl: string, consent?: MockConsent): URL;
+  fetch: typeof fetch;
+  // Codes issued and not yet exchanged
+  pendingCodes(): number;
+}
+
+interface IssuedCode {
+  challenge: string;
+  redirectUri: string;
+  scope: string;
+  issuedAt: number;
+}
+
+function randomId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function oauthError(status: number, error: string, description: string): Response {
+  return new Response(JSON.stringify({ error, error_description: description }), {
+    status, headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function createMockAuthServer({
+  clientId, redirectUri, codeTtlMs = 10 * 60_000, now = Date.now,
+}: MockAuthServerOptions): MockAuthServer {
+  const codes = new Map<string, IssuedCode>();
+  const refreshTokens = new Map<string, string>();
+
+  const issueTokens = (scope: string): SpotifyTokens & { scope: string } => {
+    const refresh_token = `mock-refresh-${randomId()}`;
+    refreshTokens.set(refresh_token, scope);
+    return { access_token: `mock-access-${randomId()}`, token_type: 'Bearer', expires_in: 3600, refresh_token, scope };
+  };
+
+  const authorize = (authorizeUrl: string, consent: MockConsent = 'agree'): URL => {
+    const params = new URL(authorizeUrl).searchParams;
+    // Spotify shows these on its own page rather than redirecting
+    if (params.get('client_id') !== clientId) throw new Error('INVALID_CLIENT: Invalid client');
+    if (params.get('redirect_uri') !== redirectUri) throw new Error('INVALID_CLIENT: Invalid redirect URI');
+
+    const callback = new URL(redirectUri);
+    const state = params.get('state');
+    if (consent === 'deny') {
+      callback.searchParams.set('error', 'access_denied');
+    } else if (params.get('response_type') !== 'code') {
+      callback.searchParams.set('error', 'unsupported_response_type');
+    } else if (params.get('code_challenge_method') !== 'S256' || !params.get('code_challenge')) {
+      callback.searchParams.set('error', 'invalid_request');
+    } else {
+      const code = randomId();
+      codes.set(code, {
+        challenge: params.get('code_challenge')!,
+        redirectUri,
+        scope: params.get('scope') ?? '',
+        issuedAt: now(),
+      });
+      callback.searchParams.set('code', code);
+    }
+    // Echoed untouched; checking it is the client's job
+    if (state !== null) callback.searchParams.set('state', state);
+    return callback;
+  };
+
+  const exchangeCode = async (body: URLSearchParams): Promise<Response> => {
+    const code = body.get('code') ?? '';
+    const issued = codes.get(code);
+    codes.delete(code);
+    if (!issued) return oauthError(400, 'invalid_grant', 'Invalid authorization code');
+    if (now() - issued.issuedAt > codeTtlMs) return oauthError(400, 'invalid_grant', 'Authorization code expired');
+    if (body.get('redirect_uri') !== issued.redirectUri) return oauthError(400, 'invalid_grant', 'Invalid redirect URI');
+    const verifier = body.get('code_verifier');
+    if (!verifier || await generateCodeChallenge(verifier) !== issued.challenge) {
+      return oauthError(400, 'invalid_grant', 'code_verifier was incorrect');
+    }
+    return Response.json(issueTokens(issued.scope));
+  };
+
+  const refresh = (body: URLSearchParams): Response => {
+    const scope = refreshTokens.get(body.get('refresh_token') ?? '');
+    if (scope === undefined) return oauthError(400, 'invalid_grant', 'Invalid refresh token');
+    return Response.json(issueTokens(scope));
+  };
+
+  const mockFetch: typeof fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    if (url.origin !== MOCK_ORIGIN || url.pathname !== '/api/token') {
+      return new Response('Not found', { status: 404 });
+    }
+    if (init?.method !== 'POST') return new Response('Method not allowed', { status: 405 });
+
+    const body = new URLSearchParams(String(init.body ?? ''));
+    if (body.get('client_id') !== clientId) return oauthError(400, 'invalid_client', 'Invalid client');
+    switch (body.get('grant_type')) {
+      case 'authorization_code': return exchangeCode(body);
+      case 'refresh_token': return refresh(body);
+      default: return oauthError(400, 'unsupported_grant_type', 'grant_type must be authorization_code or refresh_token');
+    }
+  };
+
+  return {
+    endpoints: { authorize: `${MOCK_ORIGIN}/authorize`, token: `${MOCK_ORIGIN}/api/token` },
+    authorize,
+    fetch: mockFetch,
+    pendingCodes: () => codes.size,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * scheduler.ts
+ *
+ * Request layer for the Spotify Web API: caps concurrency, honours 429
+ * Retry-After, backs off exponentially on 5xx and network errors, and
+ * coalesces identical in-flight GETs so callers asking for the same resource
+ * share one request.
+ */
+
+export type SchedulerEvent =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'rate-limited'; retryAfterMs: number }
+  | { type: 'retry'; attempt: number; delayMs: number; status: number | null };
+
+export interface SchedulerOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<SchedulerOptions> = {
+  concurrency: 4,
+  maxRetries: 4,
+  baseDelayMs: 500,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+export class RequestScheduler {
+  private options: Required<SchedulerOptions>;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private inFlight = new Map<string, Promise<Response>>();
+  private listeners = new Set<(event: SchedulerEvent) => void>();
+  // A 429 pauses every request, not just the one that hit it
+  private pausedUntil = 0;
+  private total = 0;
+  private completed = 0;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  subscribe(listener: (event: SchedulerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // dedupeKey: pass for idempotent requests (GETs). Every caller receives its
+  // own clone of the shared response so bodies can be read independently.
+  schedule(send: () => Promise<Response>, dedupeKey?: string): Promise<Response> {
+    if (dedupeKey) {
+      const existing = this.inFlight.get(dedupeKey);
+      if (existing) return existing.then(r => r.clone());
+    }
+
+    // A new batch starts once everything before it has settled
+    if (this.active === 0 && this.waiting.length === 0 && this.completed === this.total) {
+      this.total = 0;
+      this.completed = 0;
+    }
+    this.total++;
+    this.emit({ type: 'progress', completed: this.completed, total: this.total });
+
+    const pending = this.run(send).finally(() => {
+      if (dedupeKey) this.inFlight.delete(dedupeKey);
+      this.completed++;
+      this.emit({ type: 'progress', completed: this.completed, total: this.total });
+    });
+
+    if (dedupeKey) this.inFlight.set(dedupeKey, pending);
+    return pending.then(r => r.clone());
+  }
+
+  private async run(send: () => Promise<Response>): Promise<Response> {
+    const { maxRetries, baseDelayMs } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      let response: Response | null = null;
+      let networkError: unknown = null;
+      try {
+        await this.waitForRateLimit();
+        response = await send();
+      } catch (err) {
+        networkError = err;
+      } finally {
+        this.release();
+      }
+
+      const exhausted = attempt >= maxRetries;
+
+      if (response?.status === 429 && !exhausted) {
+        const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After')) ?? baseDelayMs * 2 ** attempt;
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterMs);
+        this.emit({ type: 'rate-limited', retryAfterMs });
+        continue;
+      }
+
+      const retryable = networkError !== null || (response !== null && response.status >= 500);
+      if (retryable && !exhausted) {
+        const delayMs = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+        this.emit({ type: 'retry', attempt: attempt + 1, delayMs, status: response?.status ?? null });
+        await sleep(delayMs);
+        continue;
+      }
+
+      if (networkError !== null) throw networkError;
+      return response!;
+    }
+  }
+
+  private async waitForRateLimit(): Promise<void> {
+    while (Date.now() < this.pausedUntil) {
+      await sleep(this.pausedUntil - Date.now());
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(() => { this.active++; resolve(); }));
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  private emit(event: SchedulerEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSpotifyService } from '@/lib/spotify/service';
+import { createMockAuthServer, type MockAuthServer } from '@/lib/spotify/mock-auth';
+import { saveConfigOverride } from '@/lib/spotify/config';
+import { accountKey, registerAccount } from '@/lib/storage/accounts';
+
+const CLIENT_ID = '0123456789abcdef0123456789abcdef';
+const REDIRECT_URI = 'http://127.0.0.1:5173/callback';
+// Where createAuthorizeUrl keeps the state and verifier of the login in progress
+const AUTH_ATTEMPT_KEY = 'spotify_auth_attempt';
+
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    key: index => Array.from(items.keys())[index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: key => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+}
+
+function editAttempt(edit: (attempt: { state: string; verifier: string; startedAt: number }) => void): void {
+  const attempt = JSON.parse(localStorage.getItem(AUTH_ATTEMPT_KEY)!);
+  edit(attempt);
+  localStorage.setItem(AUTH_ATTEMPT_KEY, JSON.stringify(attempt));
+}
+
+describe('SpotifyService login', () => {
+  let server: MockAuthServer;
+  let service: ReturnType<typeof createSpotifyService>;
+
+  // Starts a login and returns the callback Spotify would redirect to
+  const startLogin = async () => {
+    const callback = server.authorize(await service.createAuthorizeUrl());
+    return { code: callback.searchParams.get('code')!, state: callback.searchParams.get('state') };
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+    saveConfigOverride({ clientId: CLIENT_ID, redirectUri: REDIRECT_URI });
+    server = createMockAuthServer({ clientId: CLIENT_ID, redirectUri: REDIRECT_URI });
+    service = createSpotifyService(server);
+  });
+
+  afterEach(() => {
+    // Also stops the scheduled token refresh
+    service.clearStorage();
+    vi.unstubAllGlobals();
+  });
+
+  it('exchanges the code of the login it started', async () => {
+    const { code, state } = await startLogin();
+    await expect(service.handleCallback(code, state)).resolves.toBe(true);
+    expect(service.getGrantedScopes()).toContain('user-top-read');
+    expect(localStorage.getItem(AUTH_ATTEMPT_KEY)).toBeNull();
+    expect(server.pendingCodes()).toBe(0);
+  });
+
+  it('refuses a callback whose state does not match', async () => {
+    const { code } = await startLogin();
+    await expect(service.handleCallback(code, 'forged-state')).rejects.toThrow(/state mismatch.*does not belong/i);
+    expect(server.pendingCodes()).toBe(1);
+  });
+
+  it('refuses a callback without a state', async () => {
+    const { code } = await startLogin();
+    await expect(service.handleCallback(code, null)).rejects.toThrow(/state mismatch.*no state/i);
+    expect(server.pendingCodes()).toBe(1);
+  });
+
+  it('refuses an attempt started more than 10 minutes ago', async () => {
+    const { code, state } = await startLogin();
+    editAttempt(attempt => { attempt.startedAt -= 11 * 60_000; });
+    await expect(service.handleCallback(code, state)).rejects.toThrow(/login attempt expired/i);
+    expect(server.pendingCodes()).toBe(1);
+  });
+
+  it('refuses to use an attempt twice', async () => {
+    const { code, state } = await startLogin();
+    await service.handleCallback(code, state);
+    await expect(service.handleCallback(code, state)).rejects.toThrow(/code verifier not found/i);
+  });
+
+  it('refuses an attempt replaced by a newer login', async () => {
+    const first = await startLogin();
+    await startLogin();
+    await expect(service.handleCallback(first.code, first.state)).rejects.toThrow(/state mismatch/i);
+  });
+
+  it('surfaces the token endpoint rejecting a wrong verifier', async () => {
+    const { code, state } = await startLogin();
+    editAttempt(attempt => { attempt.verifier = 'not-the-verifier-behind-the-challenge'; });
+    await expect(service.handleCallback(code, state))
+      .rejects.toThrow('Token exchange failed: invalid_grant: code_verifier was incorrect');
+    expect(service.getGrantedScopes()).toBeNull();
+  });
+});
+
+describe('SpotifyService account switching', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+    saveConfigOverride({ clientId: CLIENT_ID, redirectUri: REDIRECT_URI });
+    ['alice', 'bob'].forEach(id => {
+      registerAccount({ id, display_name: id, images: [] });
+      localStorage.setItem(accountKey(id, 'access_token'), `token-${id}`);
+      localStorage.setItem(accountKey(id, 'token_expiry'), String(Date.now() + 3_600_000));
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('does not hand one account the answer to an in-flight request of another', async () => {
+    const pending: (() => void)[] = [];
+    const apiFetch: typeof fetch = async (_input, init) => {
+      const id = new Headers(init?.headers).get('Authorization')!.replace('Bearer token-', '');
+      await new Promise<void>(resolve => pending.push(resolve));
+      return Response.json({ id, display_name: id, images: [] });
+    };
+    const service = createSpotifyService({ fetch: apiFetch });
+
+    service.switchAccount('alice');
+    const forAlice = service.getCurrentUser();
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+    service.switchAccount('bob');
+    const forBob = service.getCurrentUser();
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+    pending.forEach(resolve => resolve());
+
+    await expect(forAlice).rejects.toThrow(/account switched/i);
+    await expect(forBob).resolves.toMatchObject({ id: 'bob' });
+    expect(service.getAccountId()).toBe('bob');
+  });
+});
@@ -3,24 +3,93 @@ import type {
   SpotifyArtist, 
   SpotifyAudioFeatures, 
   SpotifyPlayHistory,
-  SpotifyTokens 
+  SpotifyAuthConfig,
+  SpotifyTokens,
+  SpotifyUser,
+  SpotifyPaging,
+  SpotifyCursorPaging,
+  ResolvedAudioFeatures
 } from '@/types/spotify-analysis';
+import { mergePlayHistory } from '@/lib/spotify/streaming-history';
+import { RequestScheduler, type SchedulerEvent } from '@/lib/spotify/scheduler';
+import { resolveAudioFeatures, type AudioFeatureProvider } from '@/lib/audio-features/provider';
+import { createSpotifyFeatureProvider } from '@/lib/audio-features/spotify-provider';
+import { createGenreEstimator } from '@/lib/audio-features/genre-estimator';
+import { createCachedFeatureProvider } from '@/lib/storage/feature-cache';
+import { resolveSpotifyConfig } from '@/lib/spotify/config';
+import { accountKey, getActiveAccountId, listAccounts, registerAccount, removeAccount, setActiveAccount } from '@/lib/storage/accounts';
 
 // Spotify API Configuration
-const SPOTIFY_AUTH_ENDPOINT = 'https://accounts.spotify.com/authorize';
-const SPOTIFY_TOKEN_ENDPOINT = 'https://accounts.spotify.com/api/token';
-const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
-
-// Required scopes for the app
-const REQUIRED_SCOPES = [
-  'user-top-read',
-  'user-read-recently-played',
-  'user-read-private',
-  'user-read-email'
-];
-
-// Generate PKCE code verifier
-function generateCodeVerifier(): string {
+export const SPOTIFY_ENDPOINTS = {
+  authorize: 'https://accounts.spotify.com/authorize',
+  token: 'https://accounts.spotify.com/api/token',
+  api: 'https://api.spotify.com/v1',
+};
+export type SpotifyEndpoints = typeof SPOTIFY_ENDPOINTS;
+
+// Swappable so the auth flow can run against a mock authorization server
+export interface SpotifyServiceOptions {
+  endpoints?: Partial<SpotifyEndpoints>;
+  fetch?: typeof fetch;
+}
+
+// A login round trip takes seconds; an older attempt is abandoned or replayed
+const AUTH_ATTEMPT_TTL_MS = 10 * 60_000;
+const AUTH_ATTEMPT_KEY = 'spotify_auth_attempt';
+
+// Per-account session fields; see sessionKey
+const SESSION_FIELDS = ['access_token', 'refresh_token', 'token_expiry', 'granted_scopes'] as const;
+type SessionField = typeof SESSION_FIELDS[number];
+
+// /me/top/* serves at most 99 items: limit 50 at offset 0, then offset 49
+const TOP_ITEMS_OFFSETS = [0, 49];
+const PAGE_LIMIT = 50;
+// Spotify rarely serves more than one page of recent plays, but walk a few
+const RECENTLY_PLAYED_BUDGET = { maxRequests: 5 };
+
+// Refresh this long before the access token actually expires
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+// Cap on audio-feature lookups for imported history (100 ids per request)
+const MAX_FEATURE_TRACKS = 1000;
+// Cap on artist lookups for history genres (50 ids per request)
+const MAX_HISTORY_ARTISTS = 500;
+
+export type TopTimeRange = 'short_term' | 'medium_term' | 'long_term';
+
+// Caps how far a paginated iterator walks. Unset limits are unbounded.
+export interface PageBudget {
+  maxItems?: number;
+  maxRequests?: number;
+}
+
+function createBudget({ maxItems = Infinity, maxRequests = Infinity }: PageBudget) {
+  let items = 0;
+  let requests = 0;
+  return {
+    // Counts the request it permits
+    canRequest(): boolean {
+      if (items >= maxItems || requests >= maxRequests) return false;
+      requests++;
+      return true;
+    },
+    // Trims a page to what's left of the item budget
+    take<T>(page: T[]): T[] {
+      const kept = page.slice(0, Math.max(maxItems - items, 0));
+      items += kept.length;
+      return kept;
+    },
+  };
+}
+
+async function collectPages<T>(pages: AsyncIterable<T[]>): Promise<T[]> {
+  const all: T[] = [];
+  for await (const page of pages) all.push(...page);
+  return all;
+}
+
+// 32 random bytes, base64url: PKCE code verifiers and OAuth state
+function generateRandomToken(): string {
   const array = new Uint8Array(32);
   crypto.getRandomValues(array);
   return btoa(String.fromCharCode(...array))
@@ -29,8 +98,38 @@ function generateCodeVerifier(): string {
     .replace(/=/g, '');
 }
 
+// Compares every character, so timing doesn't reveal how much of the state matched
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// The login this tab started: the state it sent and the verifier for its challenge
+interface AuthAttempt {
+  state: string;
+  verifier: string;
+  startedAt: number;
+}
+
+function takeAuthAttempt(): AuthAttempt | null {
+  const stored = localStorage.getItem(AUTH_ATTEMPT_KEY);
+  // Single use: a replayed callback finds nothing
+  localStorage.removeItem(AUTH_ATTEMPT_KEY);
+  if (!stored) return null;
+  try {
+    const attempt = JSON.parse(stored);
+    return typeof attempt?.state === 'string' && typeof attempt?.verifier === 'string' && typeof attempt?.startedAt === 'number'
+      ? attempt
+      : null;
+  } catch {
+    return null;
+  }
+}
+
 // Generate PKCE code challenge
-async function generateCodeChallenge(verifier: string): Promise<string> {
+export async function generateCodeChallenge(verifier: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(verifier);
   const digest = await crypto.subtle.digest('SHA-256', data);
@@ -42,98 +141,292 @@ async function generateCodeChallenge(verifier: string): Promise<string> {
 
 // Spotify Service Class
 export class SpotifyService {
-  private clientId: string;
-  private redirectUri: string;
+  private config: SpotifyAuthConfig;
+  private endpoints: SpotifyEndpoints;
+  private fetch: typeof fetch;
   private accessToken: string | null = null;
+  private refreshToken: string | null = null;
   private tokenExpiry: number = 0;
+  private grantedScopes: string | null = null;
+  // Spotify user id the session belongs to; null until /me has answered
+  private accountId: string | null = null;
+  private refreshPromise: Promise<void> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private scheduler = new RequestScheduler();
 
-  constructor(clientId: string, redirectUri: string) {
-    this.clientId = clientId;
-    this.redirectUri = redirectUri;
+  constructor(config: SpotifyAuthConfig, options: SpotifyServiceOptions = {}) {
+    this.config = config;
+    this.endpoints = { ...SPOTIFY_ENDPOINTS, ...options.endpoints };
+    // Unbound window.fetch throws "Illegal invocation"
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
   }
 
-  // Initialize from stored tokens
-  initializeFromStorage(): boolean {
-    const accessToken = localStorage.getItem('spotify_access_token');
-    const expiry = localStorage.getItem('spotify_token_expiry');
-
-    if (accessToken && expiry) {
-      this.accessToken = accessToken;
-      this.tokenExpiry = parseInt(expiry, 10);
-      
-      if (Date.now() >= this.tokenExpiry) {
-        this.clearStorage();
-        return false;
-      }
-      return true;
+  // Runtime override from the setup screen. Tokens belong to one client ID,
+  // so switching apps ends every account's session.
+  configure(config: SpotifyAuthConfig): void {
+    if (config.clientId !== this.config.clientId) {
+      this.clearStorage();
+      listAccounts().forEach(account => this.forgetAccount(account.id));
+    }
+    this.config = config;
+  }
+
+  // Signs one account out of this browser: its stored tokens and its place in
+  // the account list. Its cached documentaries and answers are left alone.
+  forgetAccount(userId: string): void {
+    if (userId === this.accountId) {
+      this.clearStorage();
+      return;
     }
+    SESSION_FIELDS.forEach(field => localStorage.removeItem(accountKey(userId, field)));
+    removeAccount(userId);
+  }
+
+  // Scopes the current session was granted, null when logged out or unknown
+  getGrantedScopes(): string[] | null {
+    return this.accessToken && this.grantedScopes !== null ? this.grantedScopes.split(' ').filter(Boolean) : null;
+  }
+
+  getAccountId(): string | null {
+    return this.accountId;
+  }
+
+  // A session whose account isn't known yet — right after the code exchange,
+  // or saved by a single-account build — lives in the unbound spotify_* keys
+  private sessionKey(field: SessionField): string {
+    return this.accountId ? accountKey(this.accountId, field) : `spotify_${field}`;
+  }
+
+  // Initialize from stored tokens. An expired access token still counts as a
+  // session when a refresh token exists — the first request renews it.
+  initializeFromStorage(): boolean {
+    // An unbound session is the newest login, so it wins over the active account
+    this.accountId = localStorage.getItem('spotify_access_token') ? null : getActiveAccountId();
+    return this.loadSession();
+  }
+
+  // Makes another signed-in account current without touching the one left
+  switchAccount(userId: string): boolean {
+    setActiveAccount(userId);
+    this.resetSession();
+    this.accountId = userId;
+    if (this.loadSession()) return true;
+    // Its tokens are gone (cleared by hand, say); drop it from the list
+    this.clearStorage();
     return false;
   }
 
+  private loadSession(): boolean {
+    const accessToken = localStorage.getItem(this.sessionKey('access_token'));
+    const expiry = localStorage.getItem(this.sessionKey('token_expiry'));
+    if (!accessToken || !expiry) return false;
+
+    this.accessToken = accessToken;
+    this.refreshToken = localStorage.getItem(this.sessionKey('refresh_token'));
+    this.tokenExpiry = parseInt(expiry, 10);
+    this.grantedScopes = localStorage.getItem(this.sessionKey('granted_scopes'));
+    if (Date.now() >= this.tokenExpiry && !this.refreshToken) {
+      this.clearStorage();
+      return false;
+    }
+    this.scheduleRefresh();
+    return true;
+  }
+
   private storeTokens(tokens: SpotifyTokens): void {
     this.accessToken = tokens.access_token;
+    // The refresh grant may omit refresh_token, meaning the old one stays valid
+    this.refreshToken = tokens.refresh_token ?? this.refreshToken;
     this.tokenExpiry = Date.now() + (tokens.expires_in * 1000);
-    localStorage.setItem('spotify_access_token', tokens.access_token);
-    localStorage.setItem('spotify_refresh_token', tokens.refresh_token);
-    localStorage.setItem('spotify_token_expiry', this.tokenExpiry.toString());
+    this.grantedScopes = tokens.scope ?? this.grantedScopes;
+    this.persistSession();
+    this.scheduleRefresh();
   }
 
-  clearStorage(): void {
+  private persistSession(): void {
+    const values: Record<SessionField, string | null> = {
+      access_token: this.accessToken,
+      refresh_token: this.refreshToken,
+      token_expiry: this.tokenExpiry.toString(),
+      granted_scopes: this.grantedScopes,
+    };
+    SESSION_FIELDS.forEach(field => {
+      const value = values[field];
+      if (value !== null) localStorage.setItem(this.sessionKey(field), value);
+      else localStorage.removeItem(this.sessionKey(field));
+    });
+  }
+
+  // Moves an unbound session under its account once /me says whose it is
+  private bindAccount(user: SpotifyUser): void {
+    SESSION_FIELDS.forEach(field => localStorage.removeItem(this.sessionKey(field)));
+    this.accountId = user.id;
+    this.persistSession();
+    registerAccount(user);
+  }
+
+  // Renew silently shortly before expiry so a long session never hits a 401
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    if (!this.refreshToken) return;
+
+    const delay = Math.max(this.tokenExpiry - TOKEN_REFRESH_MARGIN_MS - Date.now(), 0);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshAccessToken().catch(() => {});
+    }, delay);
+  }
+
+  // PKCE refresh grant. Concurrent callers share one in-flight refresh.
+  private refreshAccessToken(): Promise<void> {
+    if (this.refreshPromise) return this.refreshPromise;
+    const refreshToken = this.refreshToken;
+    if (!refreshToken) return Promise.reject(new Error('No refresh token available'));
+    // A switch mid-refresh must not write these tokens into the next account
+    const accountId = this.accountId;
+
+    this.refreshPromise = (async () => {
+      const response = await this.fetch(this.endpoints.token, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+          client_id: this.config.clientId
+        })
+      });
+
+      if (accountId !== this.accountId) throw new Error('Account switched during token refresh');
+      if (!response.ok) {
+        this.clearStorage();
+        const error = await response.text();
+        throw new Error(`Session expired, please log in again: ${error}`);
+      }
+
+      const tokens: SpotifyTokens = await response.json();
+      if (accountId !== this.accountId) throw new Error('Account switched during token refresh');
+      this.storeTokens(tokens);
+    })().finally(() => {
+      this.refreshPromise = null;
+    });
+
+    return this.refreshPromise;
+  }
+
+  private async ensureFreshToken(): Promise<void> {
+    if (this.refreshToken && Date.now() >= this.tokenExpiry - TOKEN_REFRESH_MARGIN_MS) {
+      await this.refreshAccessToken();
+    }
+  }
+
+  // Forgets the in-memory session only; stored tokens stay for a later switch
+  private resetSession(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
     this.accessToken = null;
+    this.refreshToken = null;
     this.tokenExpiry = 0;
-    localStorage.removeItem('spotify_access_token');
-    localStorage.removeItem('spotify_refresh_token');
-    localStorage.removeItem('spotify_token_expiry');
-    localStorage.removeItem('spotify_code_verifier');
+    this.grantedScopes = null;
+    this.accountId = null;
   }
 
-  async initiateAuth(): Promise<void> {
-    const codeVerifier = generateCodeVerifier();
-    const codeChallenge = await generateCodeChallenge(codeVerifier);
-    localStorage.setItem('spotify_code_verifier', codeVerifier);
+  // Ends the current account's session. Other signed-in accounts keep theirs.
+  clearStorage(): void {
+    SESSION_FIELDS.forEach(field => localStorage.removeItem(this.sessionKey(field)));
+    localStorage.removeItem(AUTH_ATTEMPT_KEY);
+    if (this.accountId) removeAccount(this.accountId);
+    this.resetSession();
+  }
+
+  // Starts a login: records a fresh state and PKCE verifier, and returns the
+  // authorize URL. Starting again replaces any earlier attempt.
+  // `chooseAccount` makes Spotify ask which account to use instead of reusing
+  // the one signed in on spotify.com — how a second household member adds theirs.
+  async createAuthorizeUrl({ chooseAccount = false } = {}): Promise<string> {
+    if (!this.config.clientId) throw new Error('No Spotify client ID is configured');
+    const attempt: AuthAttempt = { state: generateRandomToken(), verifier: generateRandomToken(), startedAt: Date.now() };
+    const codeChallenge = await generateCodeChallenge(attempt.verifier);
+    localStorage.setItem(AUTH_ATTEMPT_KEY, JSON.stringify(attempt));
     
     const params = new URLSearchParams({
-      client_id: this.clientId,
+      client_id: this.config.clientId,
       response_type: 'code',
-      redirect_uri: this.redirectUri,
+      redirect_uri: this.config.redirectUri,
+      state: attempt.state,
       code_challenge_method: 'S256',
       code_challenge: codeChallenge,
-      scope: REQUIRED_SCOPES.join(' ')
+      scope: this.config.scopes.join(' ')
     });
-    
-    window.location.href = `${SPOTIFY_AUTH_ENDPOINT}?${params.toString()}`;
+    if (chooseAccount) params.set('show_dialog', 'true');
+    return `${this.endpoints.authorize}?${params.toString()}`;
   }
 
-  async handleCallback(code: string): Promise<boolean> {
-    const codeVerifier = localStorage.getItem('spotify_code_verifier');
-    if (!codeVerifier) throw new Error('Code verifier not found');
+  async initiateAuth(options: { chooseAccount?: boolean } = {}): Promise<void> {
+    window.location.href = await this.createAuthorizeUrl(options);
+  }
+
+  // Spotify redirected back with an error; the attempt can't be completed
+  abandonAuth(): void {
+    localStorage.removeItem(AUTH_ATTEMPT_KEY);
+  }
+
+  // Only a callback carrying the state this browser generated is exchanged —
+  // anything else may be a forged login link (CSRF) and is refused.
+  async handleCallback(code: string, state: string | null): Promise<boolean> {
+    const attempt = takeAuthAttempt();
+    if (!attempt) throw new Error('Code verifier not found: no login was started from this browser');
+    if (Date.now() - attempt.startedAt > AUTH_ATTEMPT_TTL_MS) {
+      throw new Error(`Login attempt expired: it was started more than ${AUTH_ATTEMPT_TTL_MS / 60_000} minutes ago`);
+    }
+    if (!state) throw new Error('State mismatch: the callback carried no state parameter');
+    if (!constantTimeEqual(state, attempt.state)) {
+      throw new Error('State mismatch: the callback does not belong to the login started here');
+    }
+    const codeVerifier = attempt.verifier;
     
-    const response = await fetch(SPOTIFY_TOKEN_ENDPOINT, {
+    const response = await this.fetch(this.endpoints.token, {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body: new URLSearchParams({
         grant_type: 'authorization_code',
         code,
-        redirect_uri: this.redirectUri,
-        client_id: this.clientId,
+        redirect_uri: this.config.redirectUri,
+        client_id: this.config.clientId,
         code_verifier: codeVerifier
       })
     });
     
     if (!response.ok) {
+      // Spotify answers {"error": "invalid_grant", "error_description": "..."}
       const error = await response.text();
-      throw new Error(`Token exchange failed: ${error}`);
+      let detail = error;
+      try {
+        const body = JSON.parse(error);
+        detail = [body.error, body.error_description].filter(Boolean).join(': ') || error;
+      } catch {
+        // Not JSON — keep the raw text
+      }
+      throw new Error(`Token exchange failed: ${detail}`);
     }
     
     const tokens: SpotifyTokens = await response.json();
+    // A new login is unbound until getCurrentUser learns whose it is
+    this.resetSession();
     this.storeTokens(tokens);
     return true;
   }
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+  // Progress, rate-limit and retry events from the request scheduler
+  onRequestEvent(listener: (event: SchedulerEvent) => void): () => void {
+    return this.scheduler.subscribe(listener);
+  }
+
+  private async request<T>(endpoint: string, options: RequestInit = {}, isRetry: boolean = false): Promise<T> {
     if (!this.accessToken) throw new Error('Not authenticated');
+    await this.ensureFreshToken();
     
-    const response = await fetch(`${SPOTIFY_API_BASE}${endpoint}`, {
+    // Read the token at send time so scheduler retries pick up a refreshed one
+    const send = () => this.fetch(`${this.endpoints.api}${endpoint}`, {
       ...options,
       headers: {
         'Authorization': `Bearer ${this.accessToken}`,
@@ -141,7 +434,16 @@ export class SpotifyService {
         ...options.headers
       }
     });
+    const isGet = (options.method ?? 'GET').toUpperCase() === 'GET';
+    // Per account: after a switch, the same endpoint asks about someone else
+    const response = await this.scheduler.schedule(send, isGet ? `${this.accountId}:${endpoint}` : undefined);
     
+    // Token revoked or expired early — renew once and replay the request
+    if (response.status === 401 && !isRetry && this.refreshToken) {
+      await this.refreshAccessToken();
+      return this.request<T>(endpoint, options, true);
+    }
+
     if (response.status === 401) {
       this.clearStorage();
       throw new Error('Token expired');
@@ -151,32 +453,95 @@ export class SpotifyService {
       const error = await response.text();
       throw new Error(`API request failed: ${error}`);
     }
+    // Player commands answer 204 No Content
+    if (response.status === 204) return undefined as T;
     return response.json();
   }
 
-  async getCurrentUser(): Promise<{ id: string; display_name: string; images: { url: string }[] }> {
-    return this.request('/me');
+  // For the Web Playback SDK, which asks for a token whenever it needs one
+  async getAccessToken(): Promise<string> {
+    if (!this.accessToken) throw new Error('Not authenticated');
+    await this.ensureFreshToken();
+    return this.accessToken!;
+  }
+
+  // Also files the session under the user's account the first time it's known
+  async getCurrentUser(): Promise<SpotifyUser> {
+    const accountId = this.accountId;
+    const user = await this.request<SpotifyUser>('/me');
+    // The answer describes the account asked about, not one switched to since
+    if (accountId !== this.accountId) throw new Error('Account switched while looking up the current user');
+    if (this.accessToken && this.accountId !== user.id) this.bindAccount(user);
+    return user;
   }
 
-  async getTopTracks(timeRange: 'short_term' | 'medium_term' | 'long_term' = 'medium_term', limit: number = 50): Promise<SpotifyTrack[]> {
-    const response = await this.request<{ items: SpotifyTrack[] }>(
-      `/me/top/tracks?time_range=${timeRange}&limit=${limit}`
-    );
-    return response.items;
+  // Tracks play on their own; artist, album and playlist URIs play as context
+  async startPlayback(deviceId: string, uri: string): Promise<void> {
+    const body = uri.startsWith('spotify:track:') ? { uris: [uri] } : { context_uri: uri };
+    await this.request<void>(`/me/player/play?device_id=${encodeURIComponent(deviceId)}`, {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    });
   }
 
-  async getTopArtists(timeRange: 'short_term' | 'medium_term' | 'long_term' = 'medium_term', limit: number = 50): Promise<SpotifyArtist[]> {
-    const response = await this.request<{ items: SpotifyArtist[] }>(
-      `/me/top/artists?time_range=${timeRange}&limit=${limit}`
-    );
-    return response.items;
+  // Yields pages of top items up to the API's 99-item ceiling. The offset-49
+  // page overlaps the first by one item; duplicates are dropped here.
+  async *iterateTopItems<T extends { id: string }>(
+    type: 'tracks' | 'artists',
+    timeRange: TopTimeRange = 'medium_term',
+    budget: PageBudget = {}
+  ): AsyncGenerator<T[]> {
+    const seen = new Set<string>();
+    const limiter = createBudget(budget);
+    for (const offset of TOP_ITEMS_OFFSETS) {
+      if (!limiter.canRequest()) return;
+      const page = await this.request<SpotifyPaging<T>>(
+        `/me/top/${type}?time_range=${timeRange}&limit=${PAGE_LIMIT}&offset=${offset}`
+      );
+      const items = limiter.take(page.items.filter(item => !seen.has(item.id)));
+      items.forEach(item => seen.add(item.id));
+      if (items.length > 0) yield items;
+      if (!page.next || page.items.length < PAGE_LIMIT) return;
+    }
+  }
+
+  // Walks recently-played backwards through the `before` cursors, newest page
+  // first, until Spotify runs out of history or the budget is spent
+  async *iterateRecentlyPlayed(budget: PageBudget = {}): AsyncGenerator<SpotifyPlayHistory[]> {
+    const limiter = createBudget(budget);
+    let before: string | null = null;
+    while (limiter.canRequest()) {
+      const page: SpotifyCursorPaging<SpotifyPlayHistory> = await this.request(
+        `/me/player/recently-played?limit=${PAGE_LIMIT}${before ? `&before=${before}` : ''}`
+      );
+      const items = limiter.take(page.items);
+      if (items.length > 0) yield items;
+      if (!page.next || !page.cursors?.before || page.items.length === 0) return;
+      before = page.cursors.before;
+    }
   }
 
-  async getRecentlyPlayed(limit: number = 50): Promise<SpotifyPlayHistory[]> {
-    const response = await this.request<{ items: SpotifyPlayHistory[] }>(
-      `/me/player/recently-played?limit=${limit}`
-    );
-    return response.items;
+  async getTopTracks(timeRange: TopTimeRange = 'medium_term', limit: number = 99): Promise<SpotifyTrack[]> {
+    return collectPages(this.iterateTopItems<SpotifyTrack>('tracks', timeRange, { maxItems: limit }));
+  }
+
+  async getTopArtists(timeRange: TopTimeRange = 'medium_term', limit: number = 99): Promise<SpotifyArtist[]> {
+    return collectPages(this.iterateTopItems<SpotifyArtist>('artists', timeRange, { maxItems: limit }));
+  }
+
+  async getRecentlyPlayed(budget: PageBudget = { maxItems: 50 }): Promise<SpotifyPlayHistory[]> {
+    return collectPages(this.iterateRecentlyPlayed(budget));
+  }
+
+  async getArtists(artistIds: string[]): Promise<SpotifyArtist[]> {
+    const artists: SpotifyArtist[] = [];
+    for (let i = 0; i < artistIds.length; i += 50) {
+      const response = await this.request<{ artists: (SpotifyArtist | null)[] }>(
+        `/artists?ids=${artistIds.slice(i, i + 50).join(',')}`
+      );
+      artists.push(...response.artists.filter((a): a is SpotifyArtist => a !== null));
+    }
+    return artists;
   }
 
   async getAudioFeatures(trackIds: string[]): Promise<SpotifyAudioFeatures[]> {
@@ -194,33 +559,79 @@ export class SpotifyService {
     return allFeatures;
   }
 
-  async getComprehensiveData(): Promise<{
+  // knownHistory: plays accumulated on earlier visits and/or imported from an
+  // Extended Streaming History export, merged with the recently-played window
+  // so analytics see the full timeline
+  // fallbackProviders: consulted (in order) for tracks Spotify has no
+  // features for, before the genre-based estimate
+  async getComprehensiveData(
+    knownHistory: SpotifyPlayHistory[] = [],
+    fallbackProviders: AudioFeatureProvider[] = []
+  ): Promise<{
     topTracks: SpotifyTrack[];
     topArtists: SpotifyArtist[];
     recentlyPlayed: SpotifyPlayHistory[];
-    audioFeatures: Map<string, SpotifyAudioFeatures>;
+    historyArtists: SpotifyArtist[];
+    audioFeatures: Map<string, ResolvedAudioFeatures>;
   }> {
-    const [topTracks, topArtists, recentlyPlayed] = await Promise.all([
-      this.getTopTracks('medium_term', 50),
-      this.getTopArtists('medium_term', 50),
-      this.getRecentlyPlayed(50)
+    const [topTracks, topArtists, apiRecentlyPlayed] = await Promise.all([
+      this.getTopTracks('medium_term'),
+      this.getTopArtists('medium_term'),
+      this.getRecentlyPlayed(RECENTLY_PLAYED_BUDGET)
+    ]);
+    const recentlyPlayed = mergePlayHistory(apiRecentlyPlayed, knownHistory);
+    const historyArtists = await this.getHistoryArtists(recentlyPlayed, topArtists);
+
+    // Most-played tracks first so the cap drops the long tail, not the favourites
+    const playCounts = new Map<string, number>();
+    recentlyPlayed.forEach(p => playCounts.set(p.track.id, (playCounts.get(p.track.id) || 0) + 1));
+    const playedTracks = new Map(recentlyPlayed.map(p => [p.track.id, p.track]));
+    const playedByCount = Array.from(playCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => playedTracks.get(id)!);
+
+    const featureTracks = Array.from(
+      new Map([...topTracks, ...playedByCount].map(t => [t.id, t])).values()
+    ).slice(0, MAX_FEATURE_TRACKS);
+    const audioFeatures = await resolveAudioFeatures(featureTracks, [
+      createCachedFeatureProvider(),
+      createSpotifyFeatureProvider(this),
+      ...fallbackProviders,
+      createGenreEstimator([...topArtists, ...historyArtists], ids => this.getArtists(ids)),
     ]);
 
-    const allTrackIds = [...topTracks.map(t => t.id), ...recentlyPlayed.map(p => p.track.id)];
-    const uniqueTrackIds = [...new Set(allTrackIds)];
-    const audioFeaturesList = await this.getAudioFeatures(uniqueTrackIds);
-    const audioFeatures = new Map(audioFeaturesList.map(f => [f.id, f]));
+    return { topTracks, topArtists, recentlyPlayed, historyArtists, audioFeatures };
+  }
 
-    return { topTracks, topArtists, recentlyPlayed, audioFeatures };
+  // Play history only carries simplified artists (no genres). Look up the
+  // most-played ones that aren't already among the top artists.
+  private async getHistoryArtists(
+    plays: SpotifyPlayHistory[],
+    topArtists: SpotifyArtist[]
+  ): Promise<SpotifyArtist[]> {
+    const known = new Set(topArtists.map(a => a.id));
+    const counts = new Map<string, number>();
+    plays.forEach(p => p.track.artists.forEach(a => {
+      // Imported plays have synthetic ids Spotify can't resolve
+      if (!known.has(a.id) && !a.id.startsWith('export:')) counts.set(a.id, (counts.get(a.id) || 0) + 1);
+    }));
+    const ids = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_HISTORY_ARTISTS)
+      .map(([id]) => id);
+    try {
+      return await this.getArtists(ids);
+    } catch {
+      // Their plays still count; only the genres they'd add are missing
+      return [];
+    }
   }
 }
 
 // FIXED SERVICE INSTANCE
-export const createSpotifyService = (): SpotifyService => {
-  const clientId = '7f21fe736e1e4ae1afed15d3599bb01c';
-  const redirectUri = 'https://fantastic-computing-machine-q9977vv49r39w5g-5173.app.github.dev/callback';
-  
-  return new SpotifyService(clientId, redirectUri);
+// Client ID and redirect URI come from the setup override or the Vite env
+export const createSpotifyService = (options: SpotifyServiceOptions = {}): SpotifyService => {
+  return new SpotifyService(resolveSpotifyConfig(), options);
 };
 
 // Mock data remains for fallback
@@ -229,6 +640,7 @@ export const generateMockData = () => {
     topTracks: [],
     topArtists: [],
     recentlyPlayed: [],
+    historyArtists: [],
     audioFeatures: new Map()
   };
 };
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { mergePlayHistory, parseStreamingHistory } from '@/lib/spotify/streaming-history';
+import type { SpotifyPlayHistory } from '@/types/spotify-analysis';
+
+const exported = parseStreamingHistory([{
+  ts: '2024-03-01T20:15:42Z',
+  ms_played: 95_000,
+  master_metadata_track_name: 'Song',
+  master_metadata_album_artist_name: 'Artist',
+  master_metadata_album_album_name: 'Album',
+  spotify_track_uri: 'spotify:track:abc123',
+  skipped: true,
+  shuffle: true,
+}]);
+
+// The same play as the recently-played endpoint reports it
+const fromApi: SpotifyPlayHistory = {
+  ...exported[0],
+  track: { ...exported[0].track, name: 'Song (Remastered)', duration_ms: 210_000 },
+  played_at: '2024-03-01T20:15:42.517Z',
+  ms_played: undefined,
+  skipped: undefined,
+  shuffle: undefined,
+};
+
+describe('parseStreamingHistory', () => {
+  it('leaves the track length unknown rather than using time listened', () => {
+    expect(exported[0].track.duration_ms).toBe(0);
+    expect(exported[0].ms_played).toBe(95_000);
+  });
+});
+
+describe('mergePlayHistory', () => {
+  it.each([
+    ['export first', [exported, [fromApi]]],
+    ['API first', [[fromApi], exported]],
+  ])('keeps one play with the API track and export fields (%s)', (_, sources) => {
+    const merged = mergePlayHistory(...sources);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].track.name).toBe('Song (Remastered)');
+    expect(merged[0].track.duration_ms).toBe(210_000);
+    expect(merged[0]).toMatchObject({ ms_played: 95_000, skipped: true, shuffle: true });
+  });
+
+  it('keeps plays of the same track in different seconds apart', () => {
+    const later = { ...fromApi, played_at: '2024-03-01T20:15:43.000Z' };
+    expect(mergePlayHistory(exported, [later])).toHaveLength(2);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * streaming-history.ts
+ *
+ * Parses the `Streaming_History_Audio_*.json` files from Spotify's
+ * "Extended Streaming History" privacy export into SpotifyPlayHistory records,
+ * so timestamp-based analytics can run on a full year instead of the 50-item
+ * recently-played window.
+ */
+
+import type { SpotifyPlayHistory, SpotifyTrack } from '@/types/spotify-analysis';
+
+// ─── Export record shape ──────────────────────────────────────────────────────
+
+export interface StreamingHistoryRecord {
+  ts: string;
+  ms_played: number;
+  master_metadata_track_name: string | null;
+  master_metadata_album_artist_name: string | null;
+  master_metadata_album_album_name: string | null;
+  spotify_track_uri: string | null;
+  reason_start?: string | null;
+  reason_end?: string | null;
+  shuffle?: boolean | null;
+  skipped?: boolean | null;
+  offline?: boolean | null;
+  incognito_mode?: boolean | null;
+}
+
+// Spotify only counts a stream once it has played for 30 seconds
+const MIN_STREAM_MS = 30_000;
+
+function isStreamingHistoryRecord(value: unknown): value is StreamingHistoryRecord {
+  if (!value || typeof value !== 'object') return false;
+  const r = value as Record<string, unknown>;
+  return typeof r.ts === 'string' && typeof r.ms_played === 'number';
+}
+
+function trackIdFromUri(uri: string | null): string | null {
+  const match = uri?.match(/^spotify:track:([A-Za-z0-9]+)$/);
+  return match ? match[1] : null;
+}
+
+// The export carries names only — artist and album ids are derived from them
+// so grouping by id keeps working across files.
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function toTrack(record: StreamingHistoryRecord, trackId: string): SpotifyTrack {
+  const artistName = record.master_metadata_album_artist_name || 'Unknown Artist';
+  const albumName = record.master_metadata_album_album_name || 'Unknown Album';
+  return {
+    id: trackId,
+    name: record.master_metadata_track_name || 'Unknown Track',
+    artists: [{
+      id: `export:${slug(artistName)}`,
+      name: artistName,
+      genres: [],
+      popularity: 0,
+      images: [],
+      external_urls: { spotify: '' },
+    }],
+    album: { id: `export:${slug(albumName)}`, name: albumName, images: [], release_date: '' },
+    // The export doesn't carry the track's length; ms_played is time listened
+    duration_ms: 0,
+    explicit: false,
+    popularity: 0,
+    preview_url: null,
+    external_urls: { spotify: `https://open.spotify.com/track/${trackId}` },
+  };
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function parseStreamingHistory(
+  records: unknown,
+  minMsPlayed: number = MIN_STREAM_MS
+): SpotifyPlayHistory[] {
+  if (!Array.isArray(records)) {
+    throw new Error('Streaming history file must contain a JSON array');
+  }
+
+  const plays: SpotifyPlayHistory[] = [];
+  records.forEach(record => {
+    if (!isStreamingHistoryRecord(record)) return;
+    // Podcast episodes and local files have no track URI
+    const trackId = trackIdFromUri(record.spotify_track_uri);
+    if (!trackId || record.ms_played < minMsPlayed) return;
+
+    plays.push({
+      track: toTrack(record, trackId),
+      played_at: new Date(record.ts).toISOString(),
+      context: null,
+      ms_played: record.ms_played,
+      skipped: record.skipped ?? false,
+      shuffle: record.shuffle ?? false,
+    });
+  });
+  return plays;
+}
+
+export async function readStreamingHistoryFiles(files: Iterable<File>): Promise<SpotifyPlayHistory[]> {
+  const batches: SpotifyPlayHistory[][] = [];
+  for (const file of files) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`${file.name} is not valid JSON`);
+    }
+    batches.push(parseStreamingHistory(parsed));
+  }
+  return mergePlayHistory(...batches);
+}
+
+// Export timestamps have whole-second precision while the API's carry
+// milliseconds, so the same play only matches at second resolution
+function playKey(play: SpotifyPlayHistory): string {
+  return `${Math.floor(new Date(play.played_at).getTime() / 1000)}:${play.track.id}`;
+}
+
+// Prefers the API record (full track object) but keeps the export-only
+// fields, whichever source came first
+function combinePlays(a: SpotifyPlayHistory, b: SpotifyPlayHistory): SpotifyPlayHistory {
+  const api = a.ms_played === undefined ? a : b;
+  const exported = api === a ? b : a;
+  if (exported.ms_played === undefined) return api;
+  return { ...api, ms_played: exported.ms_played, skipped: exported.skipped, shuffle: exported.shuffle };
+}
+
+// Merges play histories, dropping duplicates of the same track at the same
+// timestamp. Output is chronological (oldest first).
+export function mergePlayHistory(...sources: SpotifyPlayHistory[][]): SpotifyPlayHistory[] {
+  const byKey = new Map<string, SpotifyPlayHistory>();
+  sources.flat().forEach(play => {
+    const key = playKey(play);
+    const existing = byKey.get(key);
+    byKey.set(key, existing ? combinePlays(existing, play) : play);
+  });
+  return Array.from(byKey.values())
+    .sort((a, b) => new Date(a.played_at).getTime() - new Date(b.played_at).getTime());
+}
@@ -15,10 +15,15 @@ import type {
   QuarterlyListening,
   TemporalProfile,
   GenreWeight,
+  TimeSeriesPoint,
+  ResolvedAudioFeatures,
+  IdentityClaims,
 } from '@/types/spotify-analysis';
-import { calculateIdentityProfile } from '@/lib/analytics/identity-profile';
+import { calculateIdentityProfile, detectPhaseShifts, selectDriftPeriods } from '@/lib/analytics/identity-profile';
 import { calculateEmotionalProfile } from '@/lib/analytics/emotional-profile';
 import { analyzeNocturnalBehavior } from '@/lib/analytics/nocturnal-analysis';
+import { detectObsessionEvents } from '@/lib/analytics/obsession-detector';
+import { summarizeFeatureCoverage } from '@/lib/audio-features/provider';
 
 // ─── Statistical utils ────────────────────────────────────────────────────────
 
@@ -103,8 +108,9 @@ function buildQuarterlyProxy(
       period,
       topGenres: genres,
       mainstreamPercentage: calcMainstreamPct(genres),
-      averageValence: average(feats.map(f => f.valence)) || 0.5,
-      averageEnergy: average(feats.map(f => f.energy)) || 0.5,
+      // Neutral only when no track in the range has features at all
+      averageValence: feats.length ? average(feats.map(f => f.valence)) : 0.5,
+      averageEnergy: feats.length ? average(feats.map(f => f.energy)) : 0.5,
       topTracks: tracks.slice(0, 5),
     };
   };
@@ -116,11 +122,83 @@ function buildQuarterlyProxy(
   ];
 }
 
+// ─── Monthly buckets from timestamped history ────────────────────────────────
+//
+// Real calendar months, only as deep as the accumulated or imported history
+// goes. Months with too few plays are skipped rather than read as a phase.
+
+const MIN_MONTH_PLAYS = 20;
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function buildMonthlyBreakdown(
+  plays: SpotifyPlayHistory[],
+  artists: SpotifyArtist[],
+  audioFeatures: Map<string, SpotifyAudioFeatures>
+): QuarterlyListening[] {
+  const byId = new Map(artists.map(a => [a.id, a]));
+  // Imported plays only carry artist names
+  const byName = new Map(artists.map(a => [a.name.toLowerCase(), a]));
+
+  const months = new Map<string, SpotifyPlayHistory[]>();
+  plays.forEach(p => {
+    const d = new Date(p.played_at);
+    const key = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+    if (!months.has(key)) months.set(key, []);
+    months.get(key)!.push(p);
+  });
+
+  return Array.from(months.entries())
+    .filter(([, monthPlays]) => monthPlays.length >= MIN_MONTH_PLAYS)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, monthPlays]) => {
+      const [year, month] = key.split('-').map(Number);
+
+      // Each play splits one unit of weight across its primary artist's genres
+      const genreCounts = new Map<string, number>();
+      monthPlays.forEach(p => {
+        const simple = p.track.artists[0];
+        const artist = simple && (byId.get(simple.id) ?? byName.get(simple.name.toLowerCase()));
+        artist?.genres.forEach(g => {
+          genreCounts.set(g, (genreCounts.get(g) || 0) + 1 / artist.genres.length);
+        });
+      });
+      const genreTotal = Array.from(genreCounts.values()).reduce((a, b) => a + b, 0);
+      const topGenres = Array.from(genreCounts.entries())
+        .map(([name, weight]) => ({ name, weight, percentage: genreTotal > 0 ? weight / genreTotal : 0 }))
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, 10);
+
+      const feats = monthPlays
+        .map(p => audioFeatures.get(p.track.id))
+        .filter((f): f is SpotifyAudioFeatures => !!f);
+
+      const trackCounts = new Map<string, { track: SpotifyTrack; count: number }>();
+      monthPlays.forEach(p => {
+        const entry = trackCounts.get(p.track.id) ?? { track: p.track, count: 0 };
+        entry.count++;
+        trackCounts.set(p.track.id, entry);
+      });
+
+      return {
+        period: `${MONTH_NAMES[month - 1]} ${year}`,
+        topGenres,
+        mainstreamPercentage: calcMainstreamPct(topGenres),
+        averageValence: feats.length ? average(feats.map(f => f.valence)) : 0.5,
+        averageEnergy: feats.length ? average(feats.map(f => f.energy)) : 0.5,
+        topTracks: Array.from(trackCounts.values())
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 5)
+          .map(e => e.track),
+      };
+    });
+}
+
 // ─── Temporal profile ─────────────────────────────────────────────────────────
 
 function buildTemporalProfile(
   recentlyPlayed: SpotifyPlayHistory[],
   byRange: { short: SpotifyTrack[]; medium: SpotifyTrack[]; long: SpotifyTrack[] },
+  artists: SpotifyArtist[],
   audioFeatures: Map<string, SpotifyAudioFeatures>
 ): TemporalProfile {
   const hourCounts = new Map<number, number>();
@@ -134,14 +212,24 @@ function buildTemporalProfile(
     if (count > peakCount) { peakCount = count; peakHour = hour; }
   });
 
-  const totalMs = recentlyPlayed.reduce((s, p) => s + p.track.duration_ms, 0);
+  // Imported history knows how long each play actually lasted
+  const totalMs = recentlyPlayed.reduce((s, p) => s + (p.ms_played ?? p.track.duration_ms), 0);
   const activeDays = new Set(recentlyPlayed.map(p => new Date(p.played_at).toDateString())).size;
+  // recentlyPlayed is chronological (mergePlayHistory)
+  const coverageDays = recentlyPlayed.length > 0
+    ? Math.floor(
+        (new Date(recentlyPlayed[recentlyPlayed.length - 1].played_at).setHours(0, 0, 0, 0) -
+          new Date(recentlyPlayed[0].played_at).setHours(0, 0, 0, 0)) / 86_400_000
+      ) + 1
+    : 0;
 
   return {
     totalListeningTime: Math.round(totalMs / 60000),
     activeDays,
+    coverageDays,
     peakListeningHour: peakHour,
     quarterlyBreakdown: buildQuarterlyProxy(byRange, audioFeatures),
+    monthlyBreakdown: buildMonthlyBreakdown(recentlyPlayed, artists, audioFeatures),
   };
 }
 
@@ -175,7 +263,9 @@ export interface ComprehensiveSpotifyData {
   topTracks: SpotifyTrack[];
   topArtists: SpotifyArtist[];
   recentlyPlayed: SpotifyPlayHistory[];
-  audioFeatures: Map<string, SpotifyAudioFeatures>;
+  // Full artist objects for history artists outside the top list
+  historyArtists: SpotifyArtist[];
+  audioFeatures: Map<string, ResolvedAudioFeatures>;
 }
 
 export interface RangedTrackData {
@@ -184,28 +274,35 @@ export interface RangedTrackData {
   long: SpotifyTrack[];
 }
 
+// claims: the user's own answer to "what defines your taste", if given
 export function buildListeningProfile(
   data: ComprehensiveSpotifyData,
-  rangedTracks: RangedTrackData
+  rangedTracks: RangedTrackData,
+  claims?: IdentityClaims
 ): ListeningProfile {
-  const { topTracks, topArtists, recentlyPlayed, audioFeatures } = data;
-
-  // 1. Identity
-  const identity = calculateIdentityProfile(topArtists, topTracks, []);
+  const { topTracks, topArtists, recentlyPlayed, historyArtists, audioFeatures } = data;
 
-  // 2. Emotional — use recently-played for timestamps + audio features for signal
-  const recentFeats = recentlyPlayed
-    .map(p => audioFeatures.get(p.track.id))
-    .filter((f): f is SpotifyAudioFeatures => !!f);
-  const timestamps = recentlyPlayed.map(p => p.played_at);
+  // 1. Emotional — use recently-played for timestamps + audio features for signal
+  // Keep features and timestamps aligned — only plays with features count here
+  const featuredPlays = recentlyPlayed.filter(p => audioFeatures.has(p.track.id));
+  const recentFeats = featuredPlays.map(p => audioFeatures.get(p.track.id)!);
+  const timestamps = featuredPlays.map(p => p.played_at);
   const rawTrackIds = recentlyPlayed.map(p => p.track.id);
   const emotional = calculateEmotionalProfile(recentFeats, timestamps, rawTrackIds, data.audioFeatures);
 
+  // 2. Identity — claimed moods are scored against the emotional averages
+  const identity = calculateIdentityProfile(
+    topArtists, topTracks, claims,
+    { valence: emotional.averageValence, energy: emotional.averageEnergy }
+  );
+
   // 3. Nocturnal
   const nocturnal = analyzeNocturnalBehavior(recentlyPlayed, audioFeatures);
 
   // 4. Temporal
-  const temporal = buildTemporalProfile(recentlyPlayed, rangedTracks, audioFeatures);
+  const temporal = buildTemporalProfile(
+    recentlyPlayed, rangedTracks, [...topArtists, ...historyArtists], audioFeatures
+  );
 
   // 5. Comfort zone
   const comfortZone = buildComfortZoneMetrics(
@@ -219,27 +316,59 @@ export function buildListeningProfile(
     emotional,
     behavioral: {
       circadianPatterns: nocturnal,
-      obsessionLoops: [],
-      phaseShifts: [],
+      obsessionLoops: detectObsessionEvents(recentlyPlayed, audioFeatures),
+      phaseShifts: detectPhaseShifts(selectDriftPeriods(temporal)),
       comfortZoneMetrics: comfortZone,
     },
     temporal,
+    featureCoverage: summarizeFeatureCoverage(
+      [...topTracks.map(t => t.id), ...rawTrackIds],
+      audioFeatures
+    ),
   };
 }
 
 // ─── UI data mapper ────────────────────────────────────────────────────────────
 // Maps ListeningProfile to the shape App.tsx chapters consume.
 
+// A year of imported plays is thousands of points — average them into buckets
+// so the wave stays readable.
+const MAX_ARC_POINTS = 120;
+
+function downsampleArc(points: TimeSeriesPoint[]): TimeSeriesPoint[] {
+  if (points.length <= MAX_ARC_POINTS) return points;
+  const size = points.length / MAX_ARC_POINTS;
+  return Array.from({ length: MAX_ARC_POINTS }, (_, i) => {
+    const bucket = points.slice(Math.floor(i * size), Math.floor((i + 1) * size));
+    return {
+      date: bucket[0].date,
+      valence: average(bucket.map(p => p.valence)),
+      energy: average(bucket.map(p => p.energy)),
+      tempo: average(bucket.map(p => p.tempo)),
+      isCopingCluster: bucket.some(p => p.isCopingCluster),
+    };
+  });
+}
+
+function formatBurstSpan(start: string, end: string): string {
+  const hours = Math.max((Date.parse(end) - Date.parse(start)) / 3_600_000, 1);
+  return hours < 24 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)} days`;
+}
+
 export interface UIData {
   userName: string;
   totalMinutes: number;
+  // True when totalMinutes is scaled up from less than a year of plays
+  isProjected: boolean;
+  daysOfData: number;
   totalSongs: number;
-  topArtists: { rank: string; title: string; subtitle: string; barWidth: string }[];
+  // `uri` lets Premium users play the card in full
+  topArtists: { rank: string; title: string; subtitle: string; barWidth: string; uri?: string }[];
   genreDistribution: { label: string; height: number }[];
   emotionalStats: { value: string; label: string; pct: string }[];
-  loopedTracks: { rank: string; title: string; subtitle: string; barWidth: string }[];
+  loopedTracks: { rank: string; title: string; subtitle: string; barWidth: string; uri?: string }[];
   identityDrift: { label: string; height: number }[];
-  emotionalArc: import('@/types/spotify-analysis').TimeSeriesPoint[];
+  emotionalArc: TimeSeriesPoint[];
 }
 
 export function mapProfileToUIData(
@@ -253,6 +382,8 @@ export function mapProfileToUIData(
     title: a.name,
     subtitle: `${a.genres.slice(0, 2).join(' / ') || 'Unknown genre'}`,
     barWidth: `${100 - i * 18}%`,
+    // Artists rebuilt from an imported export only have name-derived ids
+    uri: a.id.startsWith('export:') ? undefined : `spotify:artist:${a.id}`,
   }));
 
   const maxWeight = Math.max(...identity.actualTopGenres.map(g => g.weight), 1);
@@ -279,48 +410,54 @@ export function mapProfileToUIData(
     { value: genreEntropy.toFixed(2), label: 'Genre Entropy', pct: `${Math.min(Math.round(genreEntropy / 3 * 100), 100)}%` },
   ];
 
-  const loopedTracks = behavioral.circadianPatterns.loops.slice(0, 3).map((loop, i) => ({
+  const maxBurst = Math.max(...behavioral.obsessionLoops.map(e => e.playCount), 1);
+  const loopedTracks = behavioral.obsessionLoops.slice(0, 3).map(event => ({
     rank: '',
-    title: loop.trackName,
-    subtitle: `${loop.count} plays · avg valence ${(loop.avgValence * 100).toFixed(0)}%`,
-    barWidth: `${100 - i * 25}%`,
+    title: event.kind === 'artist' ? event.artistName : event.trackName,
+    subtitle: [
+      event.kind === 'artist' ? `mostly "${event.trackName}"` : event.artistName,
+      `${event.playCount} plays in ${formatBurstSpan(event.timeRange.start, event.timeRange.end)}`,
+      `avg valence ${(event.timeRange.valence * 100).toFixed(0)}%`,
+      ...(event.isNightTime ? ['after midnight'] : []),
+    ].join(' · '),
+    barWidth: `${Math.round((event.playCount / maxBurst) * 100)}%`,
+    uri: `spotify:track:${event.trackId}`,
   }));
 
-  const entropyValues = temporal.quarterlyBreakdown.map(q => {
-    if (!q.topGenres.length) return 0;
-    const tot = q.topGenres.reduce((s, g) => s + g.weight, 0);
-    return -q.topGenres.reduce((e, g) => {
-      const p = g.weight / tot;
-      return p > 0 ? e + p * Math.log2(p) : e;
-    }, 0);
-  });
+  // Real monthly entropy for the last twelve months of history
+  const recentMonths = temporal.monthlyBreakdown.slice(-12);
+  const spansYears = new Set(recentMonths.map(m => m.period.split(' ')[1])).size > 1;
+  const entropyValues = recentMonths.map(m => calculateGenreEntropy(m.topGenres));
   const maxEntropy = Math.max(...entropyValues, 1);
-  // Expand 3 quarters into 12 months for the bar chart
-  const MONTH_LABELS = ['Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec'];
-  const identityDrift = MONTH_LABELS.map((label, i) => {
-    const qIdx = i < 4 ? 0 : i < 8 ? 1 : 2;
+  const identityDrift = recentMonths.map((m, i) => {
+    const [month, year] = m.period.split(' ');
     return {
-      label,
-      height: Math.round((entropyValues[qIdx] / maxEntropy) * 85) + 5,
+      label: spansYears ? `${month} '${year.slice(2)}` : month,
+      height: Math.round((entropyValues[i] / maxEntropy) * 85) + 5,
     };
   });
 
-  // Estimate year total from sample data
-  const daysWithData = temporal.activeDays || 1;
-  const projectedMinutes = Math.round((temporal.totalListeningTime / daysWithData) * 365);
+  // Scale to a year only when the accumulated history covers less than one.
+  // Divide by the span covered, not active days — quiet days are real data too.
+  const isProjected = temporal.coverageDays > 0 && temporal.coverageDays < 365;
+  const totalMinutes = isProjected
+    ? Math.round((temporal.totalListeningTime / temporal.coverageDays) * 365)
+    : temporal.totalListeningTime;
 
   const uniqueRecentIds = new Set(behavioral.circadianPatterns.loops.map(l => l.trackId));
   const totalSongs = Math.max(identity.topArtists.length * 10 + uniqueRecentIds.size, 50);
 
   return {
     userName: user.display_name,
-    totalMinutes: projectedMinutes || temporal.totalListeningTime,
+    totalMinutes,
+    isProjected,
+    daysOfData: temporal.coverageDays,
     totalSongs,
     topArtists,
     genreDistribution,
     emotionalStats,
     loopedTracks,
     identityDrift,
-    emotionalArc: emotional.energyArc,
+    emotionalArc: downsampleArc(emotional.energyArc),
   };
 }
@@ -0,0 +1,98 @@
+/**
+ * accounts.ts
+ *
+ * The Spotify accounts signed in on this browser, for households sharing one
+ * machine. Everything personal is namespaced by Spotify user id: tokens and
+ * questionnaire answers under `accountKey` in localStorage, snapshots and
+ * plays by their userId in IndexedDB. Switching or logging out of one
+ * account leaves the others untouched.
+ *
+ * The registry remembers which account is active, so a reload reopens it.
+ */
+
+import { z } from 'zod';
+import type { SpotifyUser } from '@/types/spotify-analysis';
+
+export const ACCOUNTS_KEY = 'spotify_accounts';
+// Single-account builds remembered the last user here
+const LEGACY_LAST_USER_KEY = 'spotify_last_user_id';
+
+const storedAccountSchema = z.object({
+  id: z.string(),
+  displayName: z.string(),
+  imageUrl: z.string().nullable(),
+  lastUsedAt: z.string(),
+});
+
+const registrySchema = z.object({
+  active: z.string().nullable(),
+  accounts: z.array(storedAccountSchema),
+});
+
+export type StoredAccount = z.infer<typeof storedAccountSchema>;
+type AccountRegistry = z.infer<typeof registrySchema>;
+
+export function accountKey(userId: string, name: string): string {
+  return `spotify:${userId}:${name}`;
+}
+
+function loadRegistry(): AccountRegistry {
+  const stored = localStorage.getItem(ACCOUNTS_KEY);
+  if (!stored) return { active: localStorage.getItem(LEGACY_LAST_USER_KEY), accounts: [] };
+  try {
+    const parsed = registrySchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : { active: null, accounts: [] };
+  } catch {
+    return { active: null, accounts: [] };
+  }
+}
+
+// The last account to go takes the registry with it
+function saveRegistry(registry: AccountRegistry): void {
+  if (registry.accounts.length === 0) localStorage.removeItem(ACCOUNTS_KEY);
+  else localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(registry));
+  localStorage.removeItem(LEGACY_LAST_USER_KEY);
+}
+
+// Most recently used first
+export function listAccounts(): StoredAccount[] {
+  return [...loadRegistry().accounts].sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+}
+
+export function getActiveAccountId(): string | null {
+  return loadRegistry().active;
+}
+
+// Adds or refreshes an account after sign-in and makes it the active one
+export function registerAccount(user: SpotifyUser): void {
+  const registry = loadRegistry();
+  const account: StoredAccount = {
+    id: user.id,
+    displayName: user.display_name || user.id,
+    imageUrl: user.images[0]?.url ?? null,
+    lastUsedAt: new Date().toISOString(),
+  };
+  saveRegistry({
+    active: user.id,
+    accounts: [...registry.accounts.filter(a => a.id !== user.id), account],
+  });
+}
+
+export function setActiveAccount(userId: string): void {
+  const registry = loadRegistry();
+  if (!registry.accounts.some(a => a.id === userId)) throw new Error(`No signed-in account ${userId}`);
+  const lastUsedAt = new Date().toISOString();
+  saveRegistry({
+    active: userId,
+    accounts: registry.accounts.map(a => a.id === userId ? { ...a, lastUsedAt } : a),
+  });
+}
+
+// Forgets the account; no account is active afterwards if it was
+export function removeAccount(userId: string): void {
+  const registry = loadRegistry();
+  saveRegistry({
+    active: registry.active === userId ? null : registry.active,
+    accounts: registry.accounts.filter(a => a.id !== userId),
+  });
+}
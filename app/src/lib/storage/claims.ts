@@ -0,0 +1,71 @@
+/**
+ * claims.ts
+ *
+ * The user's answers to the identity questionnaire ("what defines your
+ * taste?"), validated with zod and kept in localStorage next to the tokens.
+ * Each account has its own answers; answers given before signing in are kept
+ * in a guest slot and become the first account's starting point.
+ */
+
+import { z } from 'zod';
+import type { IdentityClaims } from '@/types/spotify-analysis';
+import { accountKey } from '@/lib/storage/accounts';
+
+const GUEST_CLAIMS_KEY = 'spotify_identity_claims';
+
+export function claimsKey(userId: string | null): string {
+  return userId ? accountKey(userId, 'identity_claims') : GUEST_CLAIMS_KEY;
+}
+
+export const MAX_CLAIMED_GENRES = 5;
+export const MAX_CLAIMED_ARTISTS = 5;
+export const MAX_CLAIMED_MOODS = 3;
+
+export const identityClaimsSchema = z.object({
+  genres: z.array(z.string().trim().min(1)).max(MAX_CLAIMED_GENRES, `Pick up to ${MAX_CLAIMED_GENRES} genres`),
+  artists: z.array(z.string().trim().min(1)).max(MAX_CLAIMED_ARTISTS, `Pick up to ${MAX_CLAIMED_ARTISTS} artists`),
+  moods: z.array(z.enum(['euphoric', 'melancholic', 'energetic', 'calm', 'angry', 'dreamy']))
+    .max(MAX_CLAIMED_MOODS, `Pick up to ${MAX_CLAIMED_MOODS} moods`),
+});
+
+export function loadClaims(userId: string | null): IdentityClaims | null {
+  const guest = localStorage.getItem(GUEST_CLAIMS_KEY);
+  // The first account to load after answering as a guest adopts the answers
+  if (userId && guest !== null && localStorage.getItem(claimsKey(userId)) === null) {
+    localStorage.setItem(claimsKey(userId), guest);
+    localStorage.removeItem(GUEST_CLAIMS_KEY);
+  }
+  const stored = localStorage.getItem(claimsKey(userId));
+  if (!stored) return null;
+  try {
+    const parsed = identityClaimsSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveClaims(userId: string | null, claims: IdentityClaims): void {
+  localStorage.setItem(claimsKey(userId), JSON.stringify(claims));
+}
+
+// Stored answers per account, plus the guest slot as null
+export function listStoredClaims(): { userId: string | null; claims: IdentityClaims }[] {
+  const stored: { userId: string | null; claims: IdentityClaims }[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)!;
+    const userId = key === GUEST_CLAIMS_KEY ? null : key.match(/^spotify:(.+):identity_claims$/)?.[1];
+    if (userId === undefined) continue;
+    try {
+      const parsed = identityClaimsSchema.safeParse(JSON.parse(localStorage.getItem(key)!));
+      if (parsed.success) stored.push({ userId, claims: parsed.data });
+    } catch {
+      // Unreadable answers are listed as raw keys by the privacy panel
+    }
+  }
+  return stored;
+}
+
+export function deleteClaims(userId: string | null): void {
+  localStorage.removeItem(claimsKey(userId));
+}
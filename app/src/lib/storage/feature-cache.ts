@@ -0,0 +1,46 @@
+/**
+ * feature-cache.ts
+ *
+ * Audio features per track id, kept indefinitely — a track's features never
+ * change. Genre estimates are stored too (so a cached snapshot renders the
+ * same as the live one) but the provider never serves them: they are
+ * recomputed so a later table upload or API access can replace them.
+ */
+
+import type { ResolvedAudioFeatures } from '@/types/spotify-analysis';
+import type { AudioFeatureProvider } from '@/lib/audio-features/provider';
+import { STORES, idbClear, idbCount, idbGetMany, idbPutMany } from '@/lib/storage/idb';
+
+export async function cacheAudioFeatures(features: Map<string, ResolvedAudioFeatures>): Promise<void> {
+  await idbPutMany(STORES.audioFeatures, Array.from(features.values()));
+}
+
+export async function getCachedAudioFeatures(trackIds: string[]): Promise<Map<string, ResolvedAudioFeatures>> {
+  const cached = await idbGetMany<ResolvedAudioFeatures>(STORES.audioFeatures, trackIds);
+  return new Map(cached.map(f => [f.id, f]));
+}
+
+export async function countCachedAudioFeatures(): Promise<number> {
+  return idbCount(STORES.audioFeatures);
+}
+
+export async function clearAudioFeatureCache(): Promise<void> {
+  await idbClear(STORES.audioFeatures);
+}
+
+// First link in the provider chain; a cache miss (or no IndexedDB) just
+// passes every track on to the next provider
+export function createCachedFeatureProvider(): AudioFeatureProvider {
+  return {
+    name: 'cache',
+    async getFeatures(tracks) {
+      try {
+        const cached = await getCachedAudioFeatures(tracks.map(t => t.id));
+        cached.forEach((f, id) => { if (f.confidence === 'estimated') cached.delete(id); });
+        return cached;
+      } catch {
+        return new Map();
+      }
+    },
+  };
+}
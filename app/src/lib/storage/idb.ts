@@ -0,0 +1,108 @@
+/**
+ * idb.ts
+ *
+ * Minimal promise wrapper around IndexedDB. One database for the app; object
+ * stores are declared here so every upgrade lives in one place.
+ */
+
+const DB_NAME = 'spotify-documentary';
+const DB_VERSION = 2;
+
+export const STORES = {
+  snapshots: 'snapshots',
+  audioFeatures: 'audioFeatures',
+  playHistory: 'playHistory',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.snapshots)) {
+        const snapshots = db.createObjectStore(STORES.snapshots, { keyPath: 'key' });
+        snapshots.createIndex('userId', 'userId');
+      }
+      if (!db.objectStoreNames.contains(STORES.audioFeatures)) {
+        db.createObjectStore(STORES.audioFeatures, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.playHistory)) {
+        db.createObjectStore(STORES.playHistory, { keyPath: 'userId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+  });
+  // Private browsing can refuse IndexedDB; let a later call try again
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = run(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore<T>(store, 'readonly', s => s.get(key) as IDBRequest<T>);
+}
+
+export async function idbGetMany<T>(store: StoreName, keys: IDBValidKey[]): Promise<T[]> {
+  if (keys.length === 0) return [];
+  const db = await openDatabase();
+  const objectStore = db.transaction(store, 'readonly').objectStore(store);
+  const results: (T | undefined)[] = await Promise.all(keys.map(k => promisify<T | undefined>(objectStore.get(k))));
+  return results.filter((r): r is T => r !== undefined);
+}
+
+export async function idbGetAll<T>(store: StoreName): Promise<T[]> {
+  return (await withStore<T[]>(store, 'readonly', s => s.getAll() as IDBRequest<T[]>)) ?? [];
+}
+
+export async function idbCount(store: StoreName): Promise<number> {
+  return (await withStore<number>(store, 'readonly', s => s.count())) ?? 0;
+}
+
+export async function idbGetAllByIndex<T>(store: StoreName, index: string, value: IDBValidKey): Promise<T[]> {
+  return (await withStore<T[]>(store, 'readonly', s => s.index(index).getAll(value) as IDBRequest<T[]>)) ?? [];
+}
+
+export async function idbPutMany<T>(store: StoreName, values: T[]): Promise<void> {
+  if (values.length === 0) return;
+  await withStore(store, 'readwrite', s => { values.forEach(v => s.put(v)); });
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+  await withStore(store, 'readwrite', s => { s.delete(key); });
+}
+
+export async function idbClear(store: StoreName): Promise<void> {
+  await withStore(store, 'readwrite', s => { s.clear(); });
+}
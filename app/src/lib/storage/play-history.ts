@@ -0,0 +1,51 @@
+/**
+ * play-history.ts
+ *
+ * Accumulates every play a user has been seen with — each visit's
+ * recently-played window plus any imported export — so repeat visits build a
+ * multi-week timeline out of 50-play snapshots. One record per user,
+ * deduplicated by played_at + track id via mergePlayHistory.
+ */
+
+import type { SpotifyPlayHistory } from '@/types/spotify-analysis';
+import { mergePlayHistory } from '@/lib/spotify/streaming-history';
+import { STORES, idbDelete, idbGet, idbGetAll, idbPutMany } from '@/lib/storage/idb';
+
+interface StoredPlayHistory {
+  userId: string;
+  plays: SpotifyPlayHistory[];
+  updatedAt: string;
+}
+
+export interface PlayHistorySummary {
+  userId: string;
+  plays: number;
+  updatedAt: string;
+}
+
+// Chronological (oldest first); empty for a user we haven't seen
+export async function loadPlayHistory(userId: string): Promise<SpotifyPlayHistory[]> {
+  return (await idbGet<StoredPlayHistory>(STORES.playHistory, userId))?.plays ?? [];
+}
+
+// Merges new plays into the stored history and returns the combined timeline
+export async function accumulatePlayHistory(
+  userId: string,
+  plays: SpotifyPlayHistory[]
+): Promise<SpotifyPlayHistory[]> {
+  const merged = mergePlayHistory(await loadPlayHistory(userId), plays);
+  await idbPutMany<StoredPlayHistory>(STORES.playHistory, [
+    { userId, plays: merged, updatedAt: new Date().toISOString() },
+  ]);
+  return merged;
+}
+
+// One entry per user with stored plays
+export async function listPlayHistories(): Promise<PlayHistorySummary[]> {
+  return (await idbGetAll<StoredPlayHistory>(STORES.playHistory))
+    .map(({ userId, plays, updatedAt }) => ({ userId, plays: plays.length, updatedAt }));
+}
+
+export async function deletePlayHistory(userId: string): Promise<void> {
+  await idbDelete(STORES.playHistory, userId);
+}
@@ -0,0 +1,170 @@
+/**
+ * privacy.ts
+ *
+ * An inventory of everything the app keeps in this browser, for the privacy
+ * panel: logins, questionnaire answers, documentary snapshots, accumulated
+ * plays, the audio-feature cache and setup overrides. Each item knows how to
+ * delete itself. Any other app-prefixed localStorage key is listed as-is, so
+ * the inventory stays complete when something is left over from an
+ * unfinished login or an older version.
+ *
+ * Nothing is stored anywhere else: the app has no server, and reports and
+ * share links only exist where the user saves or sends them.
+ */
+
+import { CONFIG_OVERRIDE_KEY, clearConfigOverride } from '@/lib/spotify/config';
+import { ACCOUNTS_KEY, accountKey, listAccounts } from '@/lib/storage/accounts';
+import { claimsKey, deleteClaims, listStoredClaims } from '@/lib/storage/claims';
+import { deleteSnapshot, listAllSnapshots, type StoredSnapshotSummary } from '@/lib/storage/snapshots';
+import { deletePlayHistory, listPlayHistories, type PlayHistorySummary } from '@/lib/storage/play-history';
+import { clearAudioFeatureCache, countCachedAudioFeatures } from '@/lib/storage/feature-cache';
+import { STORES, idbClear } from '@/lib/storage/idb';
+
+const APP_KEY_PATTERN = /^spotify[_:]/;
+
+export type StoredCategory = 'login' | 'answers' | 'documentaries' | 'plays' | 'cache' | 'settings' | 'other';
+
+export const STORED_CATEGORY_LABELS: Record<StoredCategory, string> = {
+  login: 'Logins',
+  answers: 'Questionnaire answers',
+  documentaries: 'Documentary snapshots',
+  plays: 'Listening history',
+  cache: 'Caches',
+  settings: 'Settings',
+  other: 'Other app data',
+};
+
+export interface StoredItem {
+  id: string;
+  category: StoredCategory;
+  label: string;
+  detail: string;
+  where: 'localStorage' | 'IndexedDB';
+  remove: () => Promise<void>;
+}
+
+export interface InventoryOptions {
+  // Logins go through the service so a live session ends with its tokens
+  forgetAccount: (userId: string) => void;
+}
+
+function count(n: number, noun: string): string {
+  return `${n.toLocaleString()} ${noun}${n === 1 ? '' : 's'}`;
+}
+
+function appLocalStorageKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && APP_KEY_PATTERN.test(key)) keys.push(key);
+  }
+  return keys;
+}
+
+function indexedDbItems(
+  snapshots: StoredSnapshotSummary[],
+  histories: PlayHistorySummary[],
+  featureCount: number,
+  names: Map<string, string>
+): StoredItem[] {
+  const items: StoredItem[] = snapshots.map(s => ({
+    id: `snapshot:${s.userId}:${s.fetchDate}`,
+    category: 'documentaries',
+    label: `${s.userName} · ${s.fetchDate}`,
+    detail: `Profile, ${count(s.tracks, 'top track')} and ${count(s.artists, 'top artist')} as fetched that day`
+      + (s.current ? '' : ' · older format, no longer read'),
+    where: 'IndexedDB',
+    remove: () => deleteSnapshot(s.userId, s.fetchDate),
+  }));
+  histories.forEach(h => items.push({
+    id: `plays:${h.userId}`,
+    category: 'plays',
+    label: names.get(h.userId) ?? h.userId,
+    detail: `${count(h.plays, 'play')} with timestamps, last updated ${new Date(h.updatedAt).toLocaleDateString()}`,
+    where: 'IndexedDB',
+    remove: () => deletePlayHistory(h.userId),
+  }));
+  if (featureCount > 0) {
+    items.push({
+      id: 'audio-features',
+      category: 'cache',
+      label: 'Audio features',
+      detail: `Energy, valence and tempo for ${count(featureCount, 'track id')}, shared by every account here`,
+      where: 'IndexedDB',
+      remove: clearAudioFeatureCache,
+    });
+  }
+  return items;
+}
+
+export async function listStoredData({ forgetAccount }: InventoryOptions): Promise<StoredItem[]> {
+  const accounts = listAccounts();
+  // IndexedDB may be unavailable (private browsing); its part of the inventory is then empty
+  const [snapshots, histories, featureCount] = await Promise.all([
+    listAllSnapshots().catch(() => []),
+    listPlayHistories().catch(() => []),
+    countCachedAudioFeatures().catch(() => 0),
+  ]);
+  const names = new Map(accounts.map(a => [a.id, a.displayName]));
+  snapshots.forEach(s => { if (!names.has(s.userId)) names.set(s.userId, s.userName); });
+  const unclaimed = new Set(appLocalStorageKeys());
+  const items: StoredItem[] = [];
+
+  accounts.forEach(account => {
+    const prefix = accountKey(account.id, '');
+    unclaimed.forEach(key => {
+      if (key.startsWith(prefix) && key !== claimsKey(account.id)) unclaimed.delete(key);
+    });
+    items.push({
+      id: `login:${account.id}`,
+      category: 'login',
+      label: account.displayName,
+      detail: 'Access and refresh tokens, granted scopes, and the name and avatar shown in the account menu',
+      where: 'localStorage',
+      remove: async () => forgetAccount(account.id),
+    });
+  });
+  if (accounts.length > 0) unclaimed.delete(ACCOUNTS_KEY);
+
+  listStoredClaims().forEach(({ userId, claims }) => {
+    unclaimed.delete(claimsKey(userId));
+    items.push({
+      id: `claims:${userId ?? 'guest'}`,
+      category: 'answers',
+      label: userId ? names.get(userId) ?? userId : 'Answered before signing in',
+      detail: `${count(claims.genres.length, 'genre')}, ${count(claims.artists.length, 'artist')} and ${count(claims.moods.length, 'mood')} you said define you`,
+      where: 'localStorage',
+      remove: async () => deleteClaims(userId),
+    });
+  });
+
+  if (unclaimed.delete(CONFIG_OVERRIDE_KEY)) {
+    items.push({
+      id: 'config-override',
+      category: 'settings',
+      label: 'Setup override',
+      detail: 'Client ID and redirect URI entered on the setup screen',
+      where: 'localStorage',
+      remove: async () => clearConfigOverride(),
+    });
+  }
+
+  items.push(...indexedDbItems(snapshots, histories, featureCount, names));
+
+  unclaimed.forEach(key => items.push({
+    id: `key:${key}`,
+    category: 'other',
+    label: key,
+    detail: 'Left over from an unfinished login or an older version of the app',
+    where: 'localStorage',
+    remove: async () => localStorage.removeItem(key),
+  }));
+  return items;
+}
+
+// Every app key in localStorage and every IndexedDB store. End the live
+// session first, or its next token refresh writes the tokens back.
+export async function deleteAllStoredData(): Promise<void> {
+  appLocalStorageKeys().forEach(key => localStorage.removeItem(key));
+  await Promise.all(Object.values(STORES).map(store => idbClear(store))).catch(() => {});
+}
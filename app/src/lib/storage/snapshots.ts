@@ -0,0 +1,138 @@
+/**
+ * snapshots.ts
+ *
+ * Persists each fetch of a user's Spotify data to IndexedDB, keyed by user id
+ * and fetch date (one snapshot per user per UTC day, the latest fetch wins).
+ * Reloads render the newest snapshot straight away while the network
+ * revalidates, and the dated history is what longitudinal comparisons read.
+ *
+ * Audio features (feature-cache.ts) and plays (play-history.ts) live in their
+ * own stores and are joined back in on load. Bump SNAPSHOT_VERSION whenever the stored shape changes;
+ * snapshots from another version are ignored.
+ */
+
+import type { SpotifyUser } from '@/types/spotify-analysis';
+import type { ComprehensiveSpotifyData, RangedTrackData } from '@/lib/spotify/transformer';
+import { STORES, idbDelete, idbGetAll, idbGetAllByIndex, idbPutMany } from '@/lib/storage/idb';
+import { cacheAudioFeatures, getCachedAudioFeatures } from '@/lib/storage/feature-cache';
+import { loadPlayHistory } from '@/lib/storage/play-history';
+import { getActiveAccountId } from '@/lib/storage/accounts';
+
+export const SNAPSHOT_VERSION = 3;
+
+interface StoredSnapshot {
+  key: string;
+  version: number;
+  userId: string;
+  fetchDate: string;
+  fetchedAt: string;
+  user: SpotifyUser;
+  data: Omit<ComprehensiveSpotifyData, 'audioFeatures' | 'recentlyPlayed'>;
+  rangedTracks: RangedTrackData;
+}
+
+export interface SpotifySnapshot {
+  userId: string;
+  fetchDate: string;
+  fetchedAt: string;
+  user: SpotifyUser;
+  data: ComprehensiveSpotifyData;
+  rangedTracks: RangedTrackData;
+}
+
+export interface SnapshotSummary {
+  userId: string;
+  fetchDate: string;
+  fetchedAt: string;
+}
+
+export interface StoredSnapshotSummary extends SnapshotSummary {
+  userName: string;
+  tracks: number;
+  artists: number;
+  // False for snapshots from another SNAPSHOT_VERSION, which are never read
+  current: boolean;
+}
+
+function snapshotKey(userId: string, fetchDate: string): string {
+  return `${userId}:${fetchDate}`;
+}
+
+async function loadStoredSnapshots(userId: string): Promise<StoredSnapshot[]> {
+  const stored = await idbGetAllByIndex<StoredSnapshot>(STORES.snapshots, 'userId', userId);
+  return stored
+    .filter(s => s.version === SNAPSHOT_VERSION)
+    .sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt));
+}
+
+export async function saveSnapshot(
+  user: SpotifyUser,
+  data: ComprehensiveSpotifyData,
+  rangedTracks: RangedTrackData,
+  fetchedAt: Date = new Date()
+): Promise<void> {
+  const fetchDate = fetchedAt.toISOString().slice(0, 10);
+  const snapshot: StoredSnapshot = {
+    key: snapshotKey(user.id, fetchDate),
+    version: SNAPSHOT_VERSION,
+    userId: user.id,
+    fetchDate,
+    fetchedAt: fetchedAt.toISOString(),
+    user,
+    data: { topTracks: data.topTracks, topArtists: data.topArtists, historyArtists: data.historyArtists },
+    rangedTracks,
+  };
+  await Promise.all([
+    idbPutMany(STORES.snapshots, [snapshot]),
+    cacheAudioFeatures(data.audioFeatures),
+  ]);
+}
+
+// Newest snapshot for a user (the active account by default), with its
+// plays and audio features rehydrated from their stores
+export async function loadLatestSnapshot(userId = getActiveAccountId()): Promise<SpotifySnapshot | null> {
+  if (!userId) return null;
+  const latest = (await loadStoredSnapshots(userId)).at(-1);
+  if (!latest) return null;
+
+  const fetchedAt = new Date(latest.fetchedAt).getTime();
+  const recentlyPlayed = (await loadPlayHistory(userId))
+    .filter(p => new Date(p.played_at).getTime() <= fetchedAt);
+  const trackIds = [
+    ...latest.data.topTracks.map(t => t.id),
+    ...recentlyPlayed.map(p => p.track.id),
+  ];
+  const audioFeatures = await getCachedAudioFeatures([...new Set(trackIds)]);
+  return {
+    userId: latest.userId,
+    fetchDate: latest.fetchDate,
+    fetchedAt: latest.fetchedAt,
+    user: latest.user,
+    data: { ...latest.data, recentlyPlayed, audioFeatures },
+    rangedTracks: latest.rangedTracks,
+  };
+}
+
+// Every dated snapshot for a user, oldest first
+export async function listSnapshots(userId: string): Promise<SnapshotSummary[]> {
+  return (await loadStoredSnapshots(userId)).map(({ userId, fetchDate, fetchedAt }) => ({ userId, fetchDate, fetchedAt }));
+}
+
+// Every snapshot on this browser, any user or version, newest first
+export async function listAllSnapshots(): Promise<StoredSnapshotSummary[]> {
+  return (await idbGetAll<StoredSnapshot>(STORES.snapshots))
+    .sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt))
+    .map(s => ({
+      userId: s.userId,
+      fetchDate: s.fetchDate,
+      fetchedAt: s.fetchedAt,
+      userName: s.user?.display_name || s.userId,
+      tracks: s.data?.topTracks?.length ?? 0,
+      artists: s.data?.topArtists?.length ?? 0,
+      current: s.version === SNAPSHOT_VERSION,
+    }));
+}
+
+export async function deleteSnapshot(userId: string, fetchDate: string): Promise<void> {
+  await idbDelete(STORES.snapshots, snapshotKey(userId, fetchDate));
+}
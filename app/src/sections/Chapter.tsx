@@ -1,11 +1,15 @@
 import { motion, useInView } from 'framer-motion';
 import { useRef, useEffect } from 'react';
+import { Pause, Play } from 'lucide-react';
+import { DataPoints } from '@/components/DataPoints';
+import type { DataPoint } from '@/types/spotify-analysis';
 
 interface CardData {
   rank: string;
   title: string;
   subtitle: string;
   barWidth: string;
+  uri?: string;
 }
 
 interface BarData {
@@ -19,10 +23,15 @@ interface ChapterProps {
   title: string;
   narrative: string[];
   verdict: string;
+  confrontation?: string;
+  dataPoints?: DataPoint[];
   cards?: CardData[];
   bars?: BarData[];
   chartTitle?: string;
   onReveal?: () => void;
+  // Full-track playback; cards only get a play button when this is set
+  onPlayCard?: (uri: string) => void;
+  playingUri?: string | null;
   children?: React.ReactNode;
 }
 
@@ -32,10 +41,14 @@ export function Chapter({
   title,
   narrative,
   verdict,
+  confrontation,
+  dataPoints,
   cards,
   bars,
   chartTitle,
   onReveal,
+  onPlayCard,
+  playingUri,
   children,
 }: ChapterProps) {
   const ref = useRef<HTMLElement>(null);
@@ -65,8 +78,16 @@ export function Chapter({
           <p key={i} dangerouslySetInnerHTML={{ __html: paragraph }} />
         ))}
         <div className="verdict">"{verdict}"</div>
+        {confrontation && (
+          <div className="confrontation">
+            <div className="confrontation-label">What the data says</div>
+            {confrontation}
+          </div>
+        )}
       </div>
 
+      {dataPoints && dataPoints.length > 0 && <DataPoints points={dataPoints} isInView={isInView} />}
+
       {cards && cards.length > 0 && (
         <div className="cards-grid">
           {cards.map((card, i) => (
@@ -77,6 +98,15 @@ export function Chapter({
               transition={{ duration: 0.5, delay: 0.2 + i * 0.1 }}
               className="data-card"
             >
+              {onPlayCard && card.uri && (
+                <button
+                  className="card-play"
+                  onClick={() => onPlayCard(card.uri!)}
+                  aria-label={playingUri === card.uri ? `Pause ${card.title}` : `Play ${card.title}`}
+                >
+                  {playingUri === card.uri ? <Pause size={12} /> : <Play size={12} />}
+                </button>
+              )}
               <div className="card-rank">{card.rank}</div>
               <div className="card-title">{card.title}</div>
               <div className="card-sub">{card.subtitle}</div>
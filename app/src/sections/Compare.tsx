@@ -0,0 +1,114 @@
+import { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  buildReport, compareReports, parseReport, type DocumentaryReport, type ReportSource,
+} from '@/lib/share/report';
+
+interface CompareProps {
+  // The documentary on screen, offered as the later side
+  current?: ReportSource;
+  onClose: () => void;
+}
+
+type Side = 'before' | 'after';
+
+function describe(report: DocumentaryReport): string {
+  return `${report.script.userName} · ${new Date(report.exportedAt).toLocaleDateString()} · ${report.archetype}`;
+}
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return '—';
+  if (delta === 0) return '0';
+  return delta > 0 ? `+${delta}` : String(delta);
+}
+
+// Puts two exported reports side by side — typically last year's archive
+// against this year's — and lists what moved.
+export function Compare({ current, onClose }: CompareProps) {
+  const [reports, setReports] = useState<Record<Side, DocumentaryReport | null>>({ before: null, after: null });
+  const [error, setError] = useState<string | null>(null);
+  const inputRefs = { before: useRef<HTMLInputElement>(null), after: useRef<HTMLInputElement>(null) };
+  const comparison = useMemo(
+    () => reports.before && reports.after ? compareReports(reports.before, reports.after) : null,
+    [reports]
+  );
+
+  const load = async (side: Side, file: File) => {
+    try {
+      const report = parseReport(await file.text());
+      setReports(prev => ({ ...prev, [side]: report }));
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const loadCurrent = () => {
+    if (!current) return;
+    try {
+      setReports(prev => ({ ...prev, after: buildReport(current) }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="intro-screen" style={{ overflowY: 'auto' }}>
+      <div className="claims-form setup-panel">
+        <div className="claims-heading">Compare reports</div>
+        <div className="claims-hint">Load two JSON reports exported from the summary's Report menu.</div>
+
+        {(['before', 'after'] as Side[]).map(side => (
+          <div key={side}>
+            <div className="claims-label">{side === 'before' ? 'Earlier' : 'Later'}</div>
+            <input
+              ref={inputRefs[side]} type="file" accept=".json,application/json" hidden
+              onChange={e => { const file = e.target.files?.[0]; if (file) load(side, file); e.target.value = ''; }}
+            />
+            <div className="setup-value">{reports[side] ? describe(reports[side]) : 'No report loaded'}</div>
+            <div className="share-btns">
+              <button className="share-btn" onClick={() => inputRefs[side].current?.click()}>Load Report</button>
+              {side === 'after' && current && (
+                <button className="share-btn" onClick={loadCurrent}>Use This Documentary</button>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {error && <div className="setup-problem">{error}</div>}
+
+        {comparison && (
+          <>
+            <table className="compare-table">
+              <thead>
+                <tr><th>Metric</th><th>Earlier</th><th>Later</th><th>Change</th></tr>
+              </thead>
+              <tbody>
+                {comparison.metrics.map(m => (
+                  <tr key={m.metric}>
+                    <td>{m.metric}</td>
+                    <td>{m.before ?? '—'}</td>
+                    <td>{m.after ?? '—'}</td>
+                    <td className={m.delta ? (m.delta > 0 ? 'up' : 'down') : ''}>{formatDelta(m.delta)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {([['Genres', comparison.genres], ['Artists', comparison.artists]] as const).map(([label, diff]) => (
+              <div key={label}>
+                <div className="claims-label">{label}</div>
+                <div className="setup-value">New in the top 10 · {diff.gained.join(', ') || 'none'}</div>
+                <div className="setup-value">Dropped out · {diff.lost.join(', ') || 'none'}</div>
+              </div>
+            ))}
+          </>
+        )}
+
+        <div className="share-btns">
+          <button className="share-btn" onClick={onClose}>Back</button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,7 +1,7 @@
 import { motion, useScroll, useTransform } from 'framer-motion';
 import { useRef } from 'react';
 import type { Chapter } from '@/types/spotify-analysis';
-import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { DataPoints } from '@/components/DataPoints';
 
 interface DocumentaryChapterProps {
   chapter: Chapter;
@@ -20,17 +20,6 @@ export function DocumentaryChapter({ chapter, index }: DocumentaryChapterProps)
   const y = useTransform(scrollYProgress, [0, 0.2, 0.8, 1], [100, 0, 0, -100]);
   const scale = useTransform(scrollYProgress, [0, 0.2, 0.8, 1], [0.9, 1, 1, 0.9]);
   
-  const getTrendIcon = (trend?: 'up' | 'down' | 'neutral') => {
-    switch (trend) {
-      case 'up':
-        return <TrendingUp className="w-4 h-4 text-[#1DB954]" />;
-      case 'down':
-        return <TrendingDown className="w-4 h-4 text-red-400" />;
-      default:
-        return <Minus className="w-4 h-4 text-neutral-500" />;
-    }
-  };
-  
   return (
     <motion.section
       ref={sectionRef}
@@ -104,33 +93,7 @@ export function DocumentaryChapter({ chapter, index }: DocumentaryChapterProps)
         </motion.div>
         
         {/* Data points */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6, delay: 0.5 }}
-          viewport={{ once: true }}
-          className="flex flex-wrap gap-3"
-        >
-          {chapter.dataPoints.map((point, i) => (
-            <motion.div
-              key={point.label}
-              initial={{ opacity: 0, scale: 0.9 }}
-              whileInView={{ opacity: 1, scale: 1 }}
-              transition={{ duration: 0.4, delay: 0.6 + i * 0.1 }}
-              viewport={{ once: true }}
-              className="data-pill group hover:bg-white/10 transition-colors"
-            >
-              <span className="text-neutral-400">{point.label}:</span>
-              <span className="text-white font-semibold">{point.value}</span>
-              {point.trend && getTrendIcon(point.trend)}
-              {point.subtext && (
-                <span className="text-neutral-500 text-xs hidden group-hover:inline transition-all">
-                  ({point.subtext})
-                </span>
-              )}
-            </motion.div>
-          ))}
-        </motion.div>
+        <DataPoints points={chapter.dataPoints} />
         
         {/* Visual decoration */}
         <motion.div
@@ -1,5 +1,9 @@
 import { motion, useInView } from 'framer-motion';
 import { useRef, useState } from 'react';
+import { ShareLinkButton } from '@/components/ShareLinkButton';
+import { ReelStudio } from '@/components/ReelStudio';
+import type { ToneMode } from '@/lib/narrative/toneData';
+import type { ReelContent } from '@/types/spotify-analysis';
 
 interface FinalVerdictProps {
   headline: string;
@@ -7,20 +11,18 @@ interface FinalVerdictProps {
   archetype: string;
   totalMinutes: number;
   totalSongs: number;
+  onShareLink?: (anonymize: boolean) => Promise<string>;
+  // Per-tone reel scripts; only real profiles have them
+  reels?: Record<ToneMode, ReelContent> | null;
+  tone: ToneMode;
 }
 
-export function FinalVerdict({ headline, body, archetype, totalMinutes, totalSongs }: FinalVerdictProps) {
+export function FinalVerdict({ headline, body, archetype, totalMinutes, totalSongs, onShareLink, reels, tone }: FinalVerdictProps) {
   const ref = useRef<HTMLElement>(null);
   const isInView = useInView(ref, { once: true, margin: '-100px' });
-  const [copied, setCopied] = useState(false);
   const [reelCopied, setReelCopied] = useState(false);
 
-  const handleCopy = () => {
-    navigator.clipboard.writeText(window.location.href).catch(() => {});
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
-
+  // Demo and shared documentaries fall back to a one-line caption
   const handleReel = () => {
     const script = `${headline.replace(/<br\s*\/?>/gi, ' ')} — ${totalMinutes.toLocaleString()} minutes. ${totalSongs} songs. My year in music, brutally analyzed. #Frequencies2025 #SpotifyData`;
     navigator.clipboard.writeText(script).catch(() => {});
@@ -28,13 +30,6 @@ export function FinalVerdict({ headline, body, archetype, totalMinutes, totalSon
     setTimeout(() => setReelCopied(false), 2000);
   };
 
-  // body uses literal minute/song counts from toneData — replace with real values
-  const resolvedBody = body
-    .replace(/23[,.]?847/g, totalMinutes.toLocaleString())
-    .replace(/\b847\b/g, totalSongs.toLocaleString())
-    .replace(/Twenty-three thousand/gi, `${Math.round(totalMinutes / 1000)}K`)
-    .replace(/Eight hundred forty-seven/gi, `${totalSongs}`);
-
   return (
     <motion.section
       ref={ref}
@@ -70,7 +65,7 @@ export function FinalVerdict({ headline, body, archetype, totalMinutes, totalSon
           transition={{ duration: 0.6, delay: 0.4 }}
           className="verdict-body"
         >
-          {resolvedBody}
+          {body}
         </motion.p>
 
         <motion.div
@@ -94,12 +89,16 @@ export function FinalVerdict({ headline, body, archetype, totalMinutes, totalSon
             {totalSongs.toLocaleString()} songs and {totalMinutes.toLocaleString()} minutes of honest listening.
           </p>
           <div className="share-btns">
-            <button className="share-btn" onClick={handleCopy}>
-              {copied ? 'Copied!' : 'Copy Link'}
-            </button>
-            <button className="share-btn primary" onClick={handleReel}>
-              {reelCopied ? 'Script Copied ✓' : 'Generate Reel ↗'}
-            </button>
+            <ShareLinkButton onShareLink={onShareLink}>Copy Link</ShareLinkButton>
+            {reels ? (
+              <ReelStudio reels={reels} initialTone={tone}>
+                <button className="share-btn primary">Reel Studio ↗</button>
+              </ReelStudio>
+            ) : (
+              <button className="share-btn primary" onClick={handleReel}>
+                {reelCopied ? 'Script Copied ✓' : 'Generate Reel ↗'}
+              </button>
+            )}
           </div>
         </motion.div>
       </div>
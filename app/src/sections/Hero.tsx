@@ -5,9 +5,11 @@ interface HeroProps {
   totalMinutes: number;
   totalSongs: number;
   archetype: string;
+  daysOfData: number;
+  isProjected: boolean;
 }
 
-export function Hero({ userName, totalMinutes, totalSongs, archetype }: HeroProps) {
+export function Hero({ userName, totalMinutes, totalSongs, archetype, daysOfData, isProjected }: HeroProps) {
   const formatNumber = (num: number) => {
     if (num >= 1000) {
       return `${(num / 1000).toFixed(0)}K`;
@@ -25,7 +27,7 @@ export function Hero({ userName, totalMinutes, totalSongs, archetype }: HeroProp
         className="big-stat"
       >
         <div className="number">{formatNumber(totalMinutes)}</div>
-        <div className="label">Minutes Consumed</div>
+        <div className="label">{isProjected ? 'Minutes Consumed · Projected' : 'Minutes Consumed'}</div>
       </motion.div>
 
       <motion.div
@@ -65,6 +67,10 @@ export function Hero({ userName, totalMinutes, totalSongs, archetype }: HeroProp
           <label>Period</label>
           <span>Jan – Dec 2025</span>
         </div>
+        <div className="meta-item">
+          <label>Real Data</label>
+          <span>{daysOfData.toLocaleString()} {daysOfData === 1 ? 'day' : 'days'}</span>
+        </div>
         <div className="meta-item">
           <label>Chapters</label>
           <span>5</span>
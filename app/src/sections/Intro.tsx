@@ -1,15 +1,57 @@
+import { useRef, useState } from 'react';
 import { motion } from 'framer-motion';
+import { ClaimsQuestionnaire } from '@/components/ClaimsQuestionnaire';
+import type { IdentityClaims } from '@/types/spotify-analysis';
+import type { StoredAccount } from '@/lib/storage/accounts';
 
 interface IntroProps {
   onStart: () => void;
   isVisible: boolean;
   onLogin: () => void;
   isAuthenticated: boolean;
+  onImport?: (files: FileList) => void;
+  importedCount?: number;
+  onImportFeatureTable?: (files: FileList) => void;
+  featureTableSize?: number;
+  // Identity questionnaire, asked between connecting and the reveal
+  claims?: IdentityClaims | null;
+  claimArtistOptions?: string[];
+  onClaims?: (claims: IdentityClaims) => void;
+  onSetup?: () => void;
+  onCompare?: () => void;
+  onPrivacy?: () => void;
+  onLogout?: () => void;
+  // Accounts still signed in on this browser, offered while logged out
+  accounts?: StoredAccount[];
+  onSwitchAccount?: (userId: string) => void;
 }
 
-export function Intro({ onStart, isVisible, onLogin, isAuthenticated }: IntroProps) {
+export function Intro({
+  onStart, isVisible, onLogin, isAuthenticated, onImport, importedCount = 0, onImportFeatureTable, featureTableSize = 0,
+  claims, claimArtistOptions = [], onClaims, onSetup, onCompare, onPrivacy, onLogout, accounts = [], onSwitchAccount,
+}: IntroProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const tableInputRef = useRef<HTMLInputElement>(null);
+  const [askingClaims, setAskingClaims] = useState(false);
+
   if (!isVisible) return null;
 
+  if (askingClaims && onClaims) {
+    return (
+      <motion.div
+        initial={{ opacity: 0 }} animate={{ opacity: 1 }}
+        exit={{ opacity: 0, scale: 1.04 }}
+        transition={{ duration: 1.1, ease: 'easeInOut' }}
+        className="intro-screen"
+      >
+        <ClaimsQuestionnaire
+          artistOptions={claimArtistOptions} initialClaims={claims}
+          onSubmit={c => { onClaims(c); onStart(); }} onSkip={onStart}
+        />
+      </motion.div>
+    );
+  }
+
   return (
     <motion.div
       initial={{ opacity: 1 }}
@@ -57,7 +99,7 @@ export function Intro({ onStart, isVisible, onLogin, isAuthenticated }: IntroPro
 
         <motion.button
           whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}
-          onClick={onStart}
+          onClick={isAuthenticated && onClaims ? () => setAskingClaims(true) : onStart}
           className="intro-btn"
           style={isAuthenticated ? {} : {
             background: 'transparent', borderColor: '#333', color: 'var(--steel)'
@@ -67,15 +109,80 @@ export function Intro({ onStart, isVisible, onLogin, isAuthenticated }: IntroPro
         </motion.button>
       </motion.div>
 
+      {!isAuthenticated && onSwitchAccount && accounts.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }}
+          transition={{ duration: 1, delay: 1.0 }}
+          style={{ marginTop: '20px', display: 'flex', gap: '20px', flexWrap: 'wrap', justifyContent: 'center' }}
+        >
+          {accounts.map(account => (
+            <button key={account.id} onClick={() => onSwitchAccount(account.id)} className="intro-link">
+              Continue as {account.displayName}
+            </button>
+          ))}
+        </motion.div>
+      )}
+
+      {/* Import is only offered once connected — the OAuth redirect would drop it */}
+      {isAuthenticated && onImport && (
+        <motion.div
+          initial={{ opacity: 0 }} animate={{ opacity: 1 }}
+          transition={{ duration: 1, delay: 1.1 }}
+          style={{ marginTop: '24px', display: 'flex', flexDirection: 'column', alignItems: 'center', gap: '8px' }}
+        >
+          <input
+            ref={fileInputRef} type="file" accept=".json,application/json" multiple hidden
+            onChange={e => { if (e.target.files?.length) onImport(e.target.files); e.target.value = ''; }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()} className="share-btn"
+            style={{ flex: 'none', padding: '10px 24px' }}
+          >
+            {importedCount > 0 ? `${importedCount.toLocaleString()} Plays Imported` : 'Import Streaming History'}
+          </button>
+          <span style={{ fontSize: '10px', color: 'var(--steel)', letterSpacing: '0.1em' }}>
+            Streaming_History_Audio_*.json from your Spotify privacy export
+          </span>
+          {onImportFeatureTable && (
+            <>
+              <input
+                ref={tableInputRef} type="file" accept=".json,.csv,application/json,text/csv" multiple hidden
+                onChange={e => { if (e.target.files?.length) onImportFeatureTable(e.target.files); e.target.value = ''; }}
+              />
+              <button
+                onClick={() => tableInputRef.current?.click()} className="share-btn"
+                style={{ flex: 'none', padding: '10px 24px', marginTop: '8px' }}
+              >
+                {featureTableSize > 0 ? `${featureTableSize.toLocaleString()} Tracks In Feature Table` : 'Load Audio Feature Table'}
+              </button>
+              <span style={{ fontSize: '10px', color: 'var(--steel)', letterSpacing: '0.1em' }}>
+                Optional · CSV or JSON with track_id, valence, energy… used when Spotify has no features
+              </span>
+            </>
+          )}
+        </motion.div>
+      )}
+
       {!isAuthenticated && (
         <motion.p
           initial={{ opacity: 0 }} animate={{ opacity: 1 }}
           transition={{ duration: 1, delay: 1.2 }}
           style={{ marginTop: '24px', fontSize: '10px', color: 'var(--steel)', letterSpacing: '0.1em' }}
         >
-          Requires a Spotify account · No data is stored
+          Requires a Spotify account · Data stays in this browser, nothing is sent to a server
         </motion.p>
       )}
+
+      <motion.div
+        initial={{ opacity: 0 }} animate={{ opacity: 1 }}
+        transition={{ duration: 1, delay: 1.3 }}
+        style={{ display: 'flex', gap: '20px' }}
+      >
+        {onSetup && <button onClick={onSetup} className="intro-link">Setup & diagnostics</button>}
+        {onCompare && <button onClick={onCompare} className="intro-link">Compare reports</button>}
+        {onPrivacy && <button onClick={onPrivacy} className="intro-link">Privacy & data</button>}
+        {isAuthenticated && onLogout && <button onClick={onLogout} className="intro-link">Log out</button>}
+      </motion.div>
     </motion.div>
   );
 }
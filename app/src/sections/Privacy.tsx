@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  STORED_CATEGORY_LABELS, listStoredData, type StoredCategory, type StoredItem,
+} from '@/lib/storage/privacy';
+
+interface PrivacyProps {
+  isAuthenticated: boolean;
+  // Signs an account out; for the current account that ends the live session
+  onForgetAccount: (userId: string) => void;
+  // After each deletion, so the app can re-read what it keeps in memory
+  onDeleted: () => void;
+  onDeleteAll: () => Promise<void>;
+  onLogout: () => void;
+  onClose: () => void;
+}
+
+const SPOTIFY_APPS_URL = 'https://www.spotify.com/account/apps/';
+
+// Lists exactly what this browser holds for the app, with deletion per item
+// or all at once, and how to withdraw the app's access at Spotify itself.
+export function Privacy({ isAuthenticated, onForgetAccount, onDeleted, onDeleteAll, onLogout, onClose }: PrivacyProps) {
+  const [items, setItems] = useState<StoredItem[] | null>(null);
+  const [revision, setRevision] = useState(0);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listStoredData({ forgetAccount: onForgetAccount })
+      .then(next => { if (!cancelled) setItems(next); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [revision, onForgetAccount]);
+
+  const remove = async (item: StoredItem) => {
+    setBusy(item.id);
+    try {
+      await item.remove();
+      onDeleted();
+      setError(null);
+    } catch (err) {
+      setError(`${item.label}: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(null);
+      setRevision(r => r + 1);
+    }
+  };
+
+  const removeAll = async () => {
+    setBusy('all');
+    try {
+      await onDeleteAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setBusy(null);
+      setRevision(r => r + 1);
+    }
+  };
+
+  const categories = (Object.keys(STORED_CATEGORY_LABELS) as StoredCategory[])
+    .map(category => ({ category, entries: items?.filter(item => item.category === category) ?? [] }))
+    .filter(group => group.entries.length > 0);
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="intro-screen" style={{ overflowY: 'auto' }}>
+      <div className="claims-form setup-panel">
+        <div className="claims-heading">Privacy & data</div>
+        <div className="claims-hint">
+          Everything below lives in this browser only. The app has no server: your Spotify data comes straight from
+          Spotify, and reports and share links exist only where you save or send them.
+        </div>
+
+        {items === null && !error && <div className="claims-hint">Looking through this browser's storage…</div>}
+        {items?.length === 0 && <div className="setup-value">Nothing is stored in this browser.</div>}
+
+        {categories.map(({ category, entries }) => (
+          <div key={category}>
+            <div className="claims-label">{STORED_CATEGORY_LABELS[category]}</div>
+            {entries.map(item => (
+              <div key={item.id} className="privacy-item">
+                <div>
+                  <div className="setup-check-label">{item.label}</div>
+                  <div className="claims-hint">{item.detail} · {item.where}</div>
+                </div>
+                <button className="share-btn" disabled={busy !== null} onClick={() => remove(item)}>
+                  {busy === item.id ? 'Deleting…' : 'Delete'}
+                </button>
+              </div>
+            ))}
+          </div>
+        ))}
+
+        {error && <div className="setup-problem">{error}</div>}
+
+        <div className="privacy-note">
+          <div className="claims-label">Revoking access</div>
+          <p>
+            Deleting a login removes its tokens from this browser, but Spotify still lists the app as allowed to read
+            your account. To withdraw that, open{' '}
+            <a href={SPOTIFY_APPS_URL} target="_blank" rel="noreferrer">spotify.com/account/apps</a>{' '}
+            and choose Remove Access next to this app. That also invalidates any refresh token that was copied elsewhere.
+          </p>
+        </div>
+
+        <div className="share-btns">
+          <button className="share-btn" onClick={onClose}>Back</button>
+          {isAuthenticated && <button className="share-btn" onClick={onLogout}>Log Out</button>}
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <button className="share-btn primary" disabled={busy !== null || items?.length === 0}>
+                {busy === 'all' ? 'Deleting…' : 'Delete Everything'}
+              </button>
+            </AlertDialogTrigger>
+            <AlertDialogContent className="privacy-confirm">
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete everything?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every account is logged out, and all answers, snapshots, listening history, caches and settings are
+                  removed from this browser. This can't be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel className="share-btn">Cancel</AlertDialogCancel>
+                <AlertDialogAction className="share-btn primary" onClick={removeAll}>Delete Everything</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  configOverrideSchema, defaultRedirectUri, explainOAuthError, loadConfigOverride,
+  type CheckStatus, type ConfigCheck, type ConfigOverride, type ConfigSource, type ResolvedSpotifyConfig,
+} from '@/lib/spotify/config';
+
+interface SetupProps {
+  config: ResolvedSpotifyConfig;
+  checks: ConfigCheck[];
+  // The OAuth error that sent the user here, if any
+  problem?: string | null;
+  onSave: (override: ConfigOverride) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ConfigSource, string> = {
+  override: 'override saved in this browser',
+  env: 'from .env',
+  default: 'default',
+};
+
+const STATUS_ICONS: Record<CheckStatus, React.ReactNode> = {
+  ok: <CheckCircle2 size={14} />,
+  warn: <AlertTriangle size={14} />,
+  error: <XCircle size={14} />,
+};
+
+// Configuration and diagnostics for self-hosters: what the app will send to
+// Spotify, whether that can work from this origin, and why a login failed.
+export function Setup({ config, checks, problem, onSave, onClose }: SetupProps) {
+  const form = useForm({
+    resolver: zodResolver(configOverrideSchema),
+    defaultValues: { clientId: '', redirectUri: '', ...loadConfigOverride() },
+  });
+  const explained = problem ? explainOAuthError(problem) : null;
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="intro-screen" style={{ overflowY: 'auto' }}>
+      <div className="claims-form setup-panel">
+        <div className="claims-heading">Setup & diagnostics</div>
+
+        {problem && (
+          <div className="setup-problem">
+            <div className="confrontation-label">{explained?.title ?? 'Login failed'}</div>
+            {explained ? (
+              <>
+                <p>{explained.explanation}</p>
+                <p><strong>Fix:</strong> {explained.fix}</p>
+              </>
+            ) : (
+              <p>Spotify didn't say why. The checks below cover the usual causes.</p>
+            )}
+            <code>{problem}</code>
+          </div>
+        )}
+
+        <div>
+          <div className="claims-label">Checks</div>
+          {checks.map((check, i) => (
+            <div key={i} className={`setup-check ${check.status}`}>
+              {STATUS_ICONS[check.status]}
+              <div>
+                <div className="setup-check-label">{check.label}</div>
+                <div className="claims-hint">{check.detail}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <div className="claims-label">In use</div>
+          <div className="setup-value">
+            Client ID · {config.clientId || '—'} <span className="claims-hint">({SOURCE_LABELS[config.sources.clientId]})</span>
+          </div>
+          <div className="setup-value">
+            Redirect URI · {config.redirectUri} <span className="claims-hint">({SOURCE_LABELS[config.sources.redirectUri]})</span>
+          </div>
+          <div className="claims-hint">Register this exact redirect URI for the app in the Spotify dashboard.</div>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="setup-form">
+            <div className="claims-label">Override</div>
+            <FormField
+              control={form.control}
+              name="clientId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="claims-hint">Client ID</FormLabel>
+                  <FormControl><Input {...field} placeholder="Leave blank to use VITE_SPOTIFY_CLIENT_ID" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="redirectUri"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="claims-hint">Redirect URI</FormLabel>
+                  <FormControl><Input {...field} placeholder={`Leave blank for ${defaultRedirectUri()}`} /></FormControl>
+                  <FormDescription className="claims-hint">Saved in this browser only. Changing the client ID signs you out.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="share-btns">
+              <button type="button" className="share-btn" onClick={onClose}>Back</button>
+              <button
+                type="button" className="share-btn"
+                onClick={() => { form.reset({ clientId: '', redirectUri: '' }); onSave({}); }}
+              >
+                Clear Override
+              </button>
+              <button type="submit" className="share-btn primary">Save</button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </motion.div>
+  );
+}
@@ -1,167 +1,153 @@
-import { motion } from 'framer-motion';
-import type { BrutalSummary } from '@/types/spotify-analysis';
-import { Share2, Download, RotateCcw } from 'lucide-react';
+import { motion, useInView } from 'framer-motion';
+import { useRef, useState } from 'react';
+import type { BrutalSummary, PosterData } from '@/types/spotify-analysis';
+import { Share2, Download, FileText, RotateCcw } from 'lucide-react';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ShareLinkButton } from '@/components/ShareLinkButton';
+import { VideoExportButton } from '@/components/VideoExportButton';
+import { downloadPoster, POSTER_SIZES, type PosterFormat } from '@/lib/share/poster';
+import type { VideoSource } from '@/lib/share/video';
+import { buildReport, downloadReport, type ReportFormat, type ReportSource } from '@/lib/share/report';
 
 interface SummaryProps {
   summary: BrutalSummary;
   userName: string;
+  poster: PosterData;
+  video: VideoSource;
+  // Only your own documentary carries the profile a report is built from
+  report?: ReportSource;
+  onCompareReports?: () => void;
+  onShareLink?: (anonymize: boolean) => Promise<string>;
   onReset: () => void;
 }
 
-export function Summary({ summary, userName, onReset }: SummaryProps) {
+const POSTER_FORMATS: { format: PosterFormat; label: string }[] = [
+  { format: 'story', label: 'Story' },
+  { format: 'square', label: 'Square' },
+];
+
+const REPORT_FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: 'json', label: 'JSON · versioned data' },
+  { format: 'md', label: 'Markdown · readable report' },
+];
+
+export function Summary({ summary, userName, poster, video, report, onCompareReports, onShareLink, onReset }: SummaryProps) {
+  const ref = useRef<HTMLElement>(null);
+  const isInView = useInView(ref, { once: true, margin: '-100px' });
+  const [rendering, setRendering] = useState(false);
+
+  const handlePoster = async (format: PosterFormat) => {
+    setRendering(true);
+    try {
+      await downloadPoster(poster, format);
+    } catch (err) {
+      alert(`Could not render the poster: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  const handleReport = (source: ReportSource, format: ReportFormat) => {
+    try {
+      downloadReport(buildReport(source), format);
+    } catch (err) {
+      alert(`Could not export the report: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
   return (
-    <section className="min-h-screen flex items-center justify-center px-4 sm:px-6 lg:px-8 py-20 relative">
-      {/* Background effects */}
-      <div className="absolute inset-0 overflow-hidden pointer-events-none">
-        <div className="absolute top-1/3 left-1/4 w-[600px] h-[600px] bg-[#1DB954]/10 rounded-full blur-[150px]" />
-        <div className="absolute bottom-1/3 right-1/4 w-[400px] h-[400px] bg-white/5 rounded-full blur-[100px]" />
+    <motion.section
+      ref={ref}
+      id="summary"
+      initial={{ opacity: 0, y: 40 }}
+      animate={isInView ? { opacity: 1, y: 0 } : {}}
+      transition={{ duration: 0.8, ease: 'easeOut' }}
+      className="chapter-section"
+    >
+      <div className="chapter-label">The Brutally Honest Summary</div>
+      <h2 className="chapter-title" style={{ marginBottom: '12px' }}>{summary.headline}</h2>
+      <div className="summary-subheadline">{summary.subheadline}</div>
+
+      <div className="narrative">
+        <p>{summary.keyInsight}</p>
       </div>
-      
-      <div className="relative z-10 max-w-4xl mx-auto text-center">
-        {/* Final chapter label */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6 }}
-          viewport={{ once: true }}
-          className="mb-8"
-        >
-          <span className="cinema-subtitle text-[#1DB954]">The Final Chapter</span>
-        </motion.div>
-        
-        {/* Headline */}
-        <motion.h2
-          initial={{ opacity: 0, y: 40 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.8, delay: 0.1 }}
-          viewport={{ once: true }}
-          className="cinema-title mb-4"
-        >
-          {summary.headline}
-        </motion.h2>
-        
-        {/* Subheadline */}
-        <motion.p
-          initial={{ opacity: 0, y: 20 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6, delay: 0.2 }}
-          viewport={{ once: true }}
-          className="text-xl md:text-2xl text-neutral-400 mb-12"
-        >
-          {summary.subheadline}
-        </motion.p>
-        
-        {/* Key insight */}
-        <motion.div
-          initial={{ opacity: 0, y: 30 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.8, delay: 0.3 }}
-          viewport={{ once: true }}
-          className="glass-panel p-8 mb-12 max-w-2xl mx-auto"
-        >
-          <p className="text-lg text-neutral-300 leading-relaxed">
-            {summary.keyInsight}
-          </p>
-        </motion.div>
-        
-        {/* Stats grid */}
-        <motion.div
-          initial={{ opacity: 0, y: 30 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.8, delay: 0.4 }}
-          viewport={{ once: true }}
-          className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-12"
-        >
-          {summary.stats.map((stat, i) => (
-            <motion.div
-              key={stat.label}
-              initial={{ opacity: 0, scale: 0.9 }}
-              whileInView={{ opacity: 1, scale: 1 }}
-              transition={{ duration: 0.4, delay: 0.5 + i * 0.1 }}
-              viewport={{ once: true }}
-              className="glass-panel p-6 text-center"
-            >
-              <div className="stat-value mb-2">{stat.value}</div>
-              <div className="text-sm text-neutral-500">{stat.label}</div>
-            </motion.div>
-          ))}
-        </motion.div>
-        
-        {/* Confrontation */}
-        <motion.div
-          initial={{ opacity: 0, y: 30 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.8, delay: 0.6 }}
-          viewport={{ once: true }}
-          className="mb-12"
-        >
-          <div className="glass-panel p-8 border-l-4 border-l-[#1DB954] max-w-2xl mx-auto">
-            <p className="text-lg md:text-xl text-white italic leading-relaxed">
-              "{summary.confrontation}"
-            </p>
-          </div>
-        </motion.div>
-        
-        {/* Closing thought */}
-        <motion.p
-          initial={{ opacity: 0, y: 20 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6, delay: 0.7 }}
-          viewport={{ once: true }}
-          className="text-neutral-400 text-lg mb-12 max-w-xl mx-auto"
-        >
-          {summary.closingThought}
-        </motion.p>
-        
-        {/* Action buttons */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.6, delay: 0.8 }}
-          viewport={{ once: true }}
-          className="flex flex-wrap justify-center gap-4"
-        >
-          <button 
-            className="inline-flex items-center gap-2 px-6 py-3 rounded-full bg-white/10 text-white font-medium hover:bg-white/20 transition-colors"
-            onClick={() => alert('Share feature coming soon!')}
-          >
-            <Share2 className="w-5 h-5" />
-            Share Your Documentary
-          </button>
-          
-          <button 
-            className="inline-flex items-center gap-2 px-6 py-3 rounded-full bg-white/10 text-white font-medium hover:bg-white/20 transition-colors"
-            onClick={() => alert('Download feature coming soon!')}
-          >
-            <Download className="w-5 h-5" />
-            Download Poster
-          </button>
-          
-          <button 
-            className="inline-flex items-center gap-2 px-6 py-3 rounded-full bg-[#1DB954] text-black font-medium hover:bg-[#1ed760] transition-colors"
-            onClick={onReset}
+
+      {/* Stats grid */}
+      <div className="stats-row">
+        {summary.stats.map((stat, i) => (
+          <motion.div
+            key={stat.label}
+            initial={{ opacity: 0, y: 20 }}
+            animate={isInView ? { opacity: 1, y: 0 } : {}}
+            transition={{ duration: 0.5, delay: 0.2 + i * 0.08 }}
+            className="stat-cell"
           >
-            <RotateCcw className="w-5 h-5" />
-            Start Over
-          </button>
-        </motion.div>
-        
-        {/* Footer */}
-        <motion.div
-          initial={{ opacity: 0 }}
-          whileInView={{ opacity: 1 }}
-          transition={{ duration: 0.6, delay: 1 }}
-          viewport={{ once: true }}
-          className="mt-20 pt-8 border-t border-white/10"
-        >
-          <p className="text-neutral-600 text-sm">
-            Generated for {userName} • {new Date().toLocaleDateString()}
-          </p>
-          <p className="text-neutral-700 text-xs mt-2">
-            Spotify Data Documentary Generator • Not affiliated with Spotify
-          </p>
-        </motion.div>
+            <div className="stat-value">{stat.value}</div>
+            <div className="stat-label">{stat.label}</div>
+          </motion.div>
+        ))}
+      </div>
+
+      <div className="narrative">
+        <div className="confrontation">
+          <div className="confrontation-label">The Confrontation</div>
+          {summary.confrontation}
+        </div>
+        <div className="verdict">{summary.closingThought}</div>
+      </div>
+
+      <div className="share-btns" style={{ maxWidth: 660 }}>
+        <ShareLinkButton onShareLink={onShareLink}>
+          <Share2 size={12} style={{ display: 'inline', marginRight: 8 }} />
+          Share
+        </ShareLinkButton>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button className="share-btn" disabled={rendering}>
+              <Download size={12} style={{ display: 'inline', marginRight: 8 }} />
+              {rendering ? 'Rendering...' : 'Poster'}
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="share-menu">
+            {POSTER_FORMATS.map(({ format, label }) => (
+              <DropdownMenuItem key={format} onSelect={() => handlePoster(format)}>
+                {label} · {POSTER_SIZES[format].width}×{POSTER_SIZES[format].height} PNG
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <VideoExportButton source={video} />
+        {report && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button className="share-btn">
+                <FileText size={12} style={{ display: 'inline', marginRight: 8 }} />
+                Report
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="share-menu">
+              {REPORT_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem key={format} onSelect={() => handleReport(report, format)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+              {onCompareReports && (
+                <DropdownMenuItem onSelect={onCompareReports}>Compare with an earlier report…</DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        <button className="share-btn primary" onClick={onReset}>
+          <RotateCcw size={12} style={{ display: 'inline', marginRight: 8 }} />
+          Start Over
+        </button>
+      </div>
+
+      <div className="summary-footer">
+        Generated for {userName} · {new Date().toLocaleDateString()} · Not affiliated with Spotify
       </div>
-    </section>
+    </motion.section>
   );
 }
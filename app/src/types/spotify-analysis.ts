@@ -33,6 +33,14 @@ export interface SpotifyImage {
   width: number;
 }
 
+export interface SpotifyUser {
+  id: string;
+  display_name: string;
+  images: { url: string }[];
+  // 'premium' unlocks the Web Playback SDK; absent on cached older snapshots
+  product?: string;
+}
+
 export interface SpotifyAudioFeatures {
   id: string;
   danceability: number;
@@ -50,6 +58,14 @@ export interface SpotifyAudioFeatures {
   time_signature: number;
 }
 
+// Where a track's audio features came from: Spotify's endpoint, a local
+// lookup table, or an estimate from the artist's genres
+export type FeatureConfidence = 'measured' | 'lookup' | 'estimated';
+
+export interface ResolvedAudioFeatures extends SpotifyAudioFeatures {
+  confidence: FeatureConfidence;
+}
+
 export interface SpotifyPlayHistory {
   track: SpotifyTrack;
   played_at: string;
@@ -59,6 +75,27 @@ export interface SpotifyPlayHistory {
     external_urls: { spotify: string };
     uri: string;
   } | null;
+  // Only present on plays imported from an Extended Streaming History export
+  ms_played?: number;
+  skipped?: boolean;
+  shuffle?: boolean;
+}
+
+// Offset-paged lists (/me/top/*)
+export interface SpotifyPaging<T> {
+  items: T[];
+  next: string | null;
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Cursor-paged lists (/me/player/recently-played); cursors are ms timestamps
+export interface SpotifyCursorPaging<T> {
+  items: T[];
+  next: string | null;
+  cursors: { after: string; before: string } | null;
+  limit: number;
 }
 
 // Analysis Types
@@ -84,6 +121,8 @@ export interface TimeRange {
 }
 
 export interface ObsessionEvent {
+  // 'artist' events name the artist's most-played track in the burst
+  kind: 'track' | 'artist';
   trackId: string;
   trackName: string;
   artistName: string;
@@ -141,10 +180,35 @@ export interface ListeningProfile {
   emotional: EmotionalProfile;
   behavioral: BehavioralProfile;
   temporal: TemporalProfile;
+  // Share of analysed tracks per feature source, 0-1 each
+  featureCoverage: Record<FeatureConfidence, number>;
+}
+
+// What the user says defines their taste, collected before the reveal
+export type ClaimedMood = 'euphoric' | 'melancholic' | 'energetic' | 'calm' | 'angry' | 'dreamy';
+
+export interface IdentityClaims {
+  genres: string[];
+  artists: string[];
+  moods: ClaimedMood[];
+}
+
+// How far the claims sit from the data. Each match is 0-1, null when that
+// part wasn't claimed; score is the overall gap (0 = exactly as claimed).
+export interface ClaimGap {
+  score: number;
+  genreMatch: number | null;
+  artistMatch: number | null;
+  moodMatch: number | null;
+  unmatchedGenres: string[];
+  unmatchedArtists: string[];
 }
 
 export interface IdentityProfile {
   claimedGenres: string[];
+  claimedArtists: string[];
+  claimedMoods: ClaimedMood[];
+  claimGap: ClaimGap | null;
   actualTopGenres: GenreWeight[];
   mainstreamPercentage: number;
   hipsterScore: number;
@@ -181,8 +245,12 @@ export interface ComfortZoneMetrics {
 export interface TemporalProfile {
   totalListeningTime: number;
   activeDays: number;
+  // Calendar days between the first and last recorded play, inclusive
+  coverageDays: number;
   peakListeningHour: number;
   quarterlyBreakdown: QuarterlyListening[];
+  // Calendar months from timestamped history, oldest first; sparse months omitted
+  monthlyBreakdown: QuarterlyListening[];
 }
 
 export interface QuarterlyListening {
@@ -251,17 +319,33 @@ export interface AppState {
 }
 
 // Viral Content Types
+export interface ReelScene {
+  // Seconds from the start of the reel
+  start: number;
+  end: number;
+  voiceOver: string;
+  // Which part of the documentary to screen-record under the line
+  visual: string;
+}
+
 export interface ReelContent {
+  tone: ToneMode;
+  scenes: ReelScene[];
+  // Voice-over of every scene, in order
   script: string;
   visualSuggestions: string[];
   audioSuggestion: string;
   hashtags: string[];
+  // 0-1: share of the profile's headline stats extreme enough to hook a viewer
   estimatedEngagement: number;
 }
 
 export interface PosterData {
   headline: string;
+  archetype: string;
   stats: DataPoint[];
+  // Valence samples (0-1) in play order, drawn as the mini wave
+  valenceWave: number[];
   userName: string;
   generatedAt: string;
 }
@@ -275,8 +359,11 @@ export interface SpotifyAuthConfig {
 
 export interface SpotifyTokens {
   access_token: string;
-  refresh_token: string;
+  // Omitted by the refresh grant when the existing refresh token stays valid
+  refresh_token?: string;
   expires_in: number;
   token_type: string;
+  // Space-separated scopes actually granted
+  scope?: string;
 }
 
@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SPOTIFY_CLIENT_ID?: string;
+  // Defaults to <origin>/callback
+  readonly VITE_SPOTIFY_REDIRECT_URI?: string;
+}
@@ -5,7 +5,8 @@ import { inspectAttr } from 'kimi-plugin-inspect-react'
 
 // https://vite.dev/config/
 export default defineConfig({
-  base: './',
+  // Absolute, so assets still resolve from nested routes like /doc/3
+  base: '/',
   plugins: [inspectAttr(), react()],
   resolve: {
     alias: {